@@ -5,11 +5,13 @@ import { AppComponent } from './src/app.component';
 import { provideZonelessChangeDetection } from '@angular/core';
 import { provideRouter, withHashLocation } from '@angular/router';
 import { routes } from './src/app.routes';
+import { provideDocumentRepositories } from './src/services/storage/providers';
 
 bootstrapApplication(AppComponent, {
   providers: [
     provideZonelessChangeDetection(),
-    provideRouter(routes, withHashLocation())
+    provideRouter(routes, withHashLocation()),
+    provideDocumentRepositories()
   ]
 }).catch((err) => console.error(err));
 
@@ -2,16 +2,19 @@
 import { Component, inject } from '@angular/core';
 import { RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
 import { AuthService } from './services/auth.service';
+import { AuditService } from './services/audit.service';
 import { CommonModule } from '@angular/common';
+import { NotificationCenterComponent } from './components/notification-center/notification-center.component';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [RouterOutlet, RouterLink, RouterLinkActive, CommonModule],
+  imports: [RouterOutlet, RouterLink, RouterLinkActive, CommonModule, NotificationCenterComponent],
   templateUrl: './app.component.html',
   styles: []
 })
 export class AppComponent {
   authService = inject(AuthService);
+  auditService = inject(AuditService);
   currentYear = new Date().getFullYear();
 }
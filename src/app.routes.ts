@@ -4,9 +4,20 @@ import { inject } from '@angular/core';
 import { DashboardComponent } from './components/dashboard/dashboard.component';
 import { SettingsComponent } from './components/settings/settings.component';
 import { LoginComponent } from './components/login/login.component';
+import { ImportComponent } from './components/import/import.component';
+import { CategoriesComponent } from './components/categories/categories.component';
+import { DocumentDetailComponent } from './components/document-detail/document-detail.component';
+import { SetupComponent } from './components/setup/setup.component';
+import { UsersComponent } from './components/users/users.component';
+import { AuditLogComponent } from './components/audit-log/audit-log.component';
+import { TrashComponent } from './components/trash/trash.component';
+import { CalendarComponent } from './components/calendar/calendar.component';
 import { AuthService } from './services/auth.service';
+import { DataService } from './services/data.service';
+import { LocalUserService } from './services/local-user.service';
+import type { Permission } from './services/permissions';
 
-const authGuard: CanActivateFn = () => {
+const authGuard: CanActivateFn = (_route, state) => {
   const authService = inject(AuthService);
   const router = inject(Router);
   
@@ -14,17 +25,51 @@ const authGuard: CanActivateFn = () => {
     return true;
   }
   
-  return router.createUrlTree(['/login']);
+  // Come back to the requested page after signing in
+  return router.createUrlTree(['/login'], { queryParams: { returnUrl: state.url } });
+};
+
+// Routes declare what they need in `data.permission`; without it the page stays out of reach
+const permissionGuard: CanActivateFn = (route) => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+  const permission = route.data['permission'] as Permission | undefined;
+
+  if (!permission || authService.can(permission)) {
+    return true;
+  }
+
+  return router.createUrlTree(['/dashboard']);
+};
+
+// The local backends have no accounts until the first admin is created
+const needsSetup = () =>
+  inject(DataService).config().storageBackend !== 'pocketbase' && inject(LocalUserService).needsSetup();
+
+const loginGuard: CanActivateFn = () => {
+  return needsSetup() ? inject(Router).createUrlTree(['/setup']) : true;
+};
+
+const setupGuard: CanActivateFn = () => {
+  return needsSetup() ? true : inject(Router).createUrlTree(['/login']);
 };
 
 export const routes: Routes = [
-  { path: 'login', component: LoginComponent },
+  { path: 'login', component: LoginComponent, canActivate: [loginGuard] },
+  { path: 'setup', component: SetupComponent, canActivate: [setupGuard] },
   { 
     path: '', 
     canActivate: [authGuard],
     children: [
       { path: 'dashboard', component: DashboardComponent },
-      { path: 'settings', component: SettingsComponent },
+      { path: 'documents/:id', component: DocumentDetailComponent, canActivate: [permissionGuard], data: { permission: 'doc:read' } },
+      { path: 'calendar', component: CalendarComponent, canActivate: [permissionGuard], data: { permission: 'doc:read' } },
+      { path: 'import', component: ImportComponent, canActivate: [permissionGuard], data: { permission: 'doc:create' } },
+      { path: 'trash', component: TrashComponent, canActivate: [permissionGuard], data: { permission: 'doc:delete' } },
+      { path: 'categories', component: CategoriesComponent, canActivate: [permissionGuard], data: { permission: 'category:manage' } },
+      { path: 'settings', component: SettingsComponent, canActivate: [permissionGuard], data: { permission: 'settings:write' } },
+      { path: 'users', component: UsersComponent, canActivate: [permissionGuard], data: { permission: 'users:manage' } },
+      { path: 'audit', component: AuditLogComponent, canActivate: [permissionGuard], data: { permission: 'audit:read' } },
       { path: '', redirectTo: 'dashboard', pathMatch: 'full' }
     ]
   },
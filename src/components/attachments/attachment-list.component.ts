@@ -0,0 +1,84 @@
+import { Component, DestroyRef, effect, inject, input, signal, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DataService, DocItem } from '../../services/data.service';
+import { SharingService } from '../../services/sharing.service';
+import { ACCEPTED_ATTACHMENT_TYPES, Attachment, formatFileSize, isImageAttachment } from '../../services/attachments';
+
+@Component({
+  selector: 'app-attachment-list',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './attachment-list.component.html',
+  styles: []
+})
+export class AttachmentListComponent {
+  dataService = inject(DataService);
+  sharingService = inject(SharingService);
+
+  doc = input.required<DocItem>();
+
+  readonly accept = ACCEPTED_ATTACHMENT_TYPES.join(',');
+  readonly formatFileSize = formatFileSize;
+  readonly isImage = isImageAttachment;
+
+  // Preview URLs for image attachments, keyed by attachment id
+  thumbnails = signal<Record<string, string>>({});
+
+  constructor() {
+    effect(() => {
+      const doc = this.doc();
+      untracked(() => this.loadThumbnails(doc));
+    });
+    // Object URLs from the local backends hold on to the blob until revoked
+    inject(DestroyRef).onDestroy(() => Object.values(this.thumbnails()).forEach(url => this.revoke(url)));
+  }
+
+  async onFilesSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    input.value = ''; // Allow selecting the same file again
+    if (files.length) {
+      await this.dataService.addAttachments(this.doc().id, files);
+    }
+  }
+
+  // Opens the file in a new tab, or saves it when `download` is set
+  async open(attachment: Attachment, download = false) {
+    try {
+      const url = await this.dataService.attachmentUrl(this.doc(), attachment, { download });
+      const link = document.createElement('a');
+      link.href = url;
+      link.target = '_blank';
+      link.rel = 'noopener';
+      if (download) link.download = attachment.name;
+      link.click();
+      // Give the new tab time to load before releasing the blob
+      setTimeout(() => this.revoke(url), 60000);
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      alert('Failed to open attachment: ' + errorMessage);
+    }
+  }
+
+  async remove(attachment: Attachment) {
+    if (confirm(`Remove "${attachment.name}" from this document?`)) {
+      await this.dataService.removeAttachment(this.doc().id, attachment);
+    }
+  }
+
+  private async loadThumbnails(doc: DocItem) {
+    for (const attachment of (doc.attachments ?? []).filter(isImageAttachment)) {
+      if (this.thumbnails()[attachment.id]) continue;
+      try {
+        const url = await this.dataService.attachmentUrl(doc, attachment, { thumb: true });
+        this.thumbnails.update(map => ({ ...map, [attachment.id]: url }));
+      } catch (e) {
+        console.error('Failed to load attachment preview', e);
+      }
+    }
+  }
+
+  private revoke(url: string) {
+    if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+  }
+}
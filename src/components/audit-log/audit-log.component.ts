@@ -0,0 +1,116 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { AUDIT_ACTIONS, AuditAction, AuditEntry, auditToCsv, formatAuditValue } from '../../services/audit';
+import { AuditService } from '../../services/audit.service';
+import { formatCalendarDate } from '../../services/calendar-date';
+import { downloadFile } from '../../services/download';
+
+/**
+ * Admin-only view of the audit trail: who changed which document or setting, when, and how.
+ * Filtering happens on the loaded entries; the CSV export contains exactly what is shown.
+ */
+@Component({
+  selector: 'app-audit-log',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './audit-log.component.html',
+  styles: []
+})
+export class AuditLogComponent {
+  auditService = inject(AuditService);
+
+  readonly actions = AUDIT_ACTIONS;
+  readonly formatValue = formatAuditValue;
+
+  entries = signal<AuditEntry[]>([]);
+  isLoading = signal(false);
+  error = signal<string | null>(null);
+  expandedId = signal<string | null>(null);
+
+  // Filters
+  search = signal('');
+  action = signal<AuditAction | ''>('');
+  actorId = signal('');
+  from = signal('');   // yyyy-mm-dd, inclusive
+  to = signal('');
+
+  // Everyone who appears in the loaded entries, for the user filter
+  actors = computed(() => {
+    const names = new Map<string, string>();
+    for (const entry of this.entries()) names.set(entry.actorId, entry.actorName);
+    return [...names].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  });
+
+  filtered = computed(() => {
+    const search = this.search().trim().toLowerCase();
+    const action = this.action();
+    const actorId = this.actorId();
+    const from = this.from();
+    const to = this.to();
+    return this.entries().filter(entry => {
+      if (action && entry.action !== action) return false;
+      if (actorId && entry.actorId !== actorId) return false;
+      // Compared on the local calendar day the entry was made
+      const day = formatCalendarDate(new Date(entry.timestamp));
+      if (from && day < from) return false;
+      if (to && day > to) return false;
+      if (search) {
+        const haystack = [entry.targetTitle, entry.targetId, entry.actorName, ...entry.changes.map(c => c.field)];
+        if (!haystack.some(value => value.toLowerCase().includes(search))) return false;
+      }
+      return true;
+    });
+  });
+
+  hasFilters = computed(() => !!(this.search() || this.action() || this.actorId() || this.from() || this.to()));
+
+  constructor() {
+    this.load();
+  }
+
+  async load() {
+    this.isLoading.set(true);
+    this.error.set(null);
+    try {
+      this.entries.set(await this.auditService.list());
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.error.set('Failed to load audit log: ' + errorMessage);
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  clearFilters() {
+    this.search.set('');
+    this.action.set('');
+    this.actorId.set('');
+    this.from.set('');
+    this.to.set('');
+  }
+
+  toggle(entry: AuditEntry) {
+    this.expandedId.set(this.expandedId() === entry.id ? null : entry.id);
+  }
+
+  actionLabel(action: AuditAction): string {
+    return this.actions.find(a => a.value === action)?.label ?? action;
+  }
+
+  actionClass(action: AuditAction): string {
+    switch (action) {
+      case 'create':
+      case 'restore': return 'bg-emerald-900/40 text-emerald-300';
+      case 'delete':
+      case 'purge': return 'bg-red-900/40 text-red-300';
+      case 'config': return 'bg-yellow-900/40 text-yellow-300';
+      default: return 'bg-blue-900/40 text-blue-300';
+    }
+  }
+
+  exportCsv() {
+    downloadFile('documinder-audit.csv', auditToCsv(this.filtered()), 'text/csv;charset=utf-8');
+  }
+}
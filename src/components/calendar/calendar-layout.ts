@@ -0,0 +1,80 @@
+import type { DocItem } from '../../services/data.service';
+import { addDays, addMonths } from '../../services/calendar-date';
+
+export type CalendarView = 'month' | 'agenda';
+
+export const CALENDAR_VIEWS: { value: CalendarView, label: string, icon: string }[] = [
+  { value: 'month', label: 'Month', icon: 'fa-calendar-days' },
+  { value: 'agenda', label: 'Agenda', icon: 'fa-list-ul' }
+];
+
+export interface CalendarDay {
+  date: string;       // yyyy-MM-dd
+  inMonth: boolean;   // False for the leading and trailing days of the neighbouring months
+  docs: DocItem[];
+}
+
+export interface AgendaDay {
+  date: string;
+  docs: DocItem[];
+}
+
+export interface TimelineMonth {
+  month: string;      // yyyy-MM
+  docs: DocItem[];
+}
+
+// "2025-03-14" -> "2025-03"
+export function monthOf(date: string): string {
+  return date.slice(0, 7);
+}
+
+export function shiftMonth(month: string, months: number): string {
+  return monthOf(addMonths(`${month}-01`, months));
+}
+
+// 0 for Sunday
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function byDate(docs: DocItem[]): Map<string, DocItem[]> {
+  const days = new Map<string, DocItem[]>();
+  for (const doc of [...docs].sort((a, b) => a.title.localeCompare(b.title))) {
+    if (!days.has(doc.expirationDate)) days.set(doc.expirationDate, []);
+    days.get(doc.expirationDate)!.push(doc);
+  }
+  return days;
+}
+
+// Whole weeks, Sunday first, covering the month
+export function monthGrid(month: string, docs: DocItem[]): CalendarDay[][] {
+  const first = `${month}-01`;
+  const last = addDays(`${shiftMonth(month, 1)}-01`, -1);
+  const end = addDays(last, 6 - weekday(last));
+  const days = byDate(docs);
+
+  const weeks: CalendarDay[][] = [];
+  for (let date = addDays(first, -weekday(first)); date <= end; date = addDays(date, 1)) {
+    if (weekday(date) === 0) weeks.push([]);
+    weeks[weeks.length - 1].push({ date, inMonth: monthOf(date) === month, docs: days.get(date) ?? [] });
+  }
+  return weeks;
+}
+
+// Only the days of the month that have something expiring
+export function agendaDays(month: string, docs: DocItem[]): AgendaDay[] {
+  return [...byDate(docs.filter(d => monthOf(d.expirationDate) === month))]
+    .map(([date, dayDocs]) => ({ date, docs: dayDocs }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// `count` consecutive months starting at `from`, including the empty ones
+export function timeline(from: string, count: number, docs: DocItem[]): TimelineMonth[] {
+  const months = Array.from({ length: count }, (_, i) => ({ month: shiftMonth(from, i), docs: [] as DocItem[] }));
+  const index = new Map(months.map(m => [m.month, m]));
+  for (const doc of [...docs].sort((a, b) => a.expirationDate.localeCompare(b.expirationDate))) {
+    index.get(monthOf(doc.expirationDate))?.docs.push(doc);
+  }
+  return months;
+}
@@ -0,0 +1,109 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule, DatePipe } from '@angular/common';
+import { ActivatedRoute, Params, Router, RouterLink } from '@angular/router';
+import { DataService, DocItem } from '../../services/data.service';
+import { CategoryService } from '../../services/category.service';
+import { StatusLevel, StatusPolicyService } from '../../services/status-policy.service';
+import { agendaDays, CALENDAR_VIEWS, CalendarView, monthGrid, monthOf, shiftMonth, timeline } from './calendar-layout';
+
+/**
+ * Expirations laid out in time: a month grid or agenda list for one month, and a timeline of the
+ * next twelve months to spot clusters of renewals. View, month and category live in the URL,
+ * so coming back from a document's details returns to the same place.
+ */
+@Component({
+  selector: 'app-calendar',
+  standalone: true,
+  imports: [CommonModule, DatePipe, RouterLink],
+  templateUrl: './calendar.component.html',
+  styles: []
+})
+export class CalendarComponent {
+  dataService = inject(DataService);
+  categoryService = inject(CategoryService);
+  statusPolicy = inject(StatusPolicyService);
+  route = inject(ActivatedRoute);
+  router = inject(Router);
+
+  readonly views = CALENDAR_VIEWS;
+  readonly TIMELINE_MONTHS = 12;
+  // Titles shown per day in the grid, and per month in the timeline, before "+N more"
+  readonly DAY_LIMIT = 3;
+
+  view = signal<CalendarView>('month');
+  month = signal(monthOf(this.statusPolicy.today()));
+  category = signal('');
+
+  weeks = computed(() => monthGrid(this.month(), this.dataService.documents()));
+  agenda = computed(() => agendaDays(this.month(), this.dataService.documents()));
+  timelineMonths = computed(() =>
+    timeline(monthOf(this.statusPolicy.today()), this.TIMELINE_MONTHS, this.dataService.documents())
+  );
+  // The busiest month sets the scale of the timeline bars
+  timelineMax = computed(() => Math.max(1, ...this.timelineMonths().map(m => m.docs.length)));
+
+  constructor() {
+    let loadedCategory: string | null = null;
+    this.route.queryParamMap
+      .pipe(takeUntilDestroyed())
+      .subscribe(params => {
+        const month = params.get('month');
+        this.view.set(params.get('view') === 'agenda' ? 'agenda' : 'month');
+        this.month.set(month && /^\d{4}-\d{2}$/.test(month) ? month : monthOf(this.statusPolicy.today()));
+        this.category.set(params.get('category') || '');
+
+        // Every document is placed, whatever the dashboard was filtered by; only the category narrows it
+        if (loadedCategory === this.category()) return;
+        loadedCategory = this.category();
+        const query = loadedCategory ? { category: loadedCategory } : {};
+        if (JSON.stringify(query) !== JSON.stringify(this.dataService.query())) {
+          this.dataService.setQuery(query);
+        } else {
+          this.dataService.loadDocuments();
+        }
+      });
+  }
+
+  private navigate(queryParams: Params) {
+    this.router.navigate([], { relativeTo: this.route, queryParams, queryParamsHandling: 'merge' });
+  }
+
+  setView(view: CalendarView) {
+    this.navigate({ view: view === 'month' ? null : view });
+  }
+
+  setCategory(category: string) {
+    this.navigate({ category: category || null });
+  }
+
+  // null returns to the current month, which keeps the URL clean
+  goToMonth(month: string | null) {
+    this.navigate({ month: month === monthOf(this.statusPolicy.today()) ? null : month });
+  }
+
+  previousMonth() {
+    this.goToMonth(shiftMonth(this.month(), -1));
+  }
+
+  nextMonth() {
+    this.goToMonth(shiftMonth(this.month(), 1));
+  }
+
+  // A timeline column opens its month in the grid
+  openMonth(month: string) {
+    this.navigate({ month: month === monthOf(this.statusPolicy.today()) ? null : month, view: null });
+  }
+
+  isToday(date: string): boolean {
+    return date === this.statusPolicy.today();
+  }
+
+  // How many of the documents are in each status, most urgent first, leaving out empty ones
+  segments(docs: DocItem[]): { level: StatusLevel, count: number }[] {
+    const counts = this.statusPolicy.countByStatus(docs);
+    return this.statusPolicy.levels()
+      .map(level => ({ level, count: counts[level.key] ?? 0 }))
+      .filter(segment => segment.count > 0);
+  }
+}
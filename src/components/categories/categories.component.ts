@@ -0,0 +1,140 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { BatchResult, DataService } from '../../services/data.service';
+import { Category, CategoryService, CATEGORY_ICONS } from '../../services/category.service';
+
+@Component({
+  selector: 'app-categories',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './categories.component.html',
+  styles: []
+})
+export class CategoriesComponent {
+  dataService = inject(DataService);
+  categoryService = inject(CategoryService);
+
+  readonly icons = CATEGORY_ICONS;
+
+  newName = '';
+  newColor = '#34d399';
+  newIcon = CATEGORY_ICONS[0];
+
+  renamingId = signal<string | null>(null);
+  renameValue = '';
+  mergingId = signal<string | null>(null);
+  mergeTargetId = '';
+  isBusy = signal(false);
+  message = signal<string | null>(null);
+  // Documents the last rename or merge could not move
+  failed = signal<BatchResult[]>([]);
+
+  // Number of documents in each category, keyed by name
+  usage = computed(() => {
+    const counts = new Map<string, number>();
+    for (const doc of this.dataService.documents()) {
+      counts.set(doc.category, (counts.get(doc.category) ?? 0) + 1);
+    }
+    return counts;
+  });
+
+  constructor() {
+    this.dataService.loadDocuments();
+  }
+
+  async create() {
+    await this.run(async () => {
+      await this.categoryService.create(this.newName, this.newColor, this.newIcon);
+      this.newName = '';
+      return null;
+    });
+  }
+
+  startRename(category: Category) {
+    this.mergingId.set(null);
+    this.renamingId.set(category.id);
+    this.renameValue = category.name;
+  }
+
+  async confirmRename(category: Category) {
+    await this.run(async () => {
+      const newName = this.renameValue.trim();
+      const results = await this.categoryService.rename(category.id, this.renameValue);
+      this.renamingId.set(null);
+      const failed = this.reportFailures(results);
+      if (!results.length) return null;
+      return failed
+        ? `Renamed to "${newName}". ${results.length - failed} of ${results.length} document(s) were moved; the rest still use "${category.name}".`
+        : `Renamed to "${newName}" and updated ${results.length} document(s).`;
+    });
+  }
+
+  startMerge(category: Category) {
+    this.renamingId.set(null);
+    this.mergingId.set(category.id);
+    this.mergeTargetId = '';
+  }
+
+  mergeTargets(category: Category): Category[] {
+    return this.categoryService.categories().filter(c => c.id !== category.id);
+  }
+
+  async confirmMerge(category: Category) {
+    const target = this.categoryService.categories().find(c => c.id === this.mergeTargetId);
+    if (!target) return;
+    if (!confirm(`Move all documents from "${category.name}" to "${target.name}" and remove "${category.name}"?`)) return;
+
+    await this.run(async () => {
+      const results = await this.categoryService.merge(category.id, target.id);
+      this.mergingId.set(null);
+      const failed = this.reportFailures(results);
+      return failed
+        ? `Moved ${results.length - failed} of ${results.length} document(s) to "${target.name}". "${category.name}" is kept until the rest are moved.`
+        : `Merged "${category.name}" into "${target.name}" (${results.length} document(s) moved).`;
+    });
+  }
+
+  async setColor(category: Category, color: string) {
+    await this.run(async () => {
+      await this.categoryService.update(category.id, { color });
+      return null;
+    });
+  }
+
+  async setIcon(category: Category, icon: string) {
+    await this.run(async () => {
+      await this.categoryService.update(category.id, { icon });
+      return null;
+    });
+  }
+
+  async toggleArchived(category: Category) {
+    await this.run(async () => {
+      await this.categoryService.update(category.id, { archived: !category.archived });
+      return null;
+    });
+  }
+
+  // Lists the documents that could not be moved; returns how many
+  private reportFailures(results: BatchResult[]): number {
+    this.failed.set(results.filter(r => r.error));
+    return this.failed().length;
+  }
+
+  // Runs a change, showing its result message or alerting on failure
+  private async run(action: () => Promise<string | null>) {
+    this.isBusy.set(true);
+    this.message.set(null);
+    this.failed.set([]);
+    try {
+      this.message.set(await action());
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      alert('Failed to update categories: ' + errorMessage);
+    } finally {
+      this.isBusy.set(false);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { ParamMap, Params } from '@angular/router';
+import type { DocItem } from '../../services/data.service';
+import type { DocumentQuery } from '../../services/storage/document-query';
+import type { DocumentScope } from '../../services/sharing';
+
+// A StatusPolicyService status key; the tiers between Expired and Active are configurable
+export type StatusFilter = string;
+export type SortOption = 'expiration' | 'title' | 'created' | 'category';
+export type GroupOption = '' | 'category' | 'month';
+
+// Everything the dashboard list can be narrowed or arranged by. Kept in the URL query
+// string so a filtered view can be bookmarked or shared.
+export interface DashboardFilters extends DocumentQuery {
+  status: StatusFilter;
+  sort: SortOption;
+  group: GroupOption;
+}
+
+export interface DocGroup {
+  key: string;
+  label: string;
+  docs: DocItem[];
+}
+
+export const SORT_OPTIONS: { value: SortOption, label: string }[] = [
+  { value: 'expiration', label: 'Expiration (soonest first)' },
+  { value: 'title', label: 'Title (A-Z)' },
+  { value: 'created', label: 'Recently added' },
+  { value: 'category', label: 'Category' }
+];
+
+export const GROUP_OPTIONS: { value: GroupOption, label: string }[] = [
+  { value: '', label: 'No grouping' },
+  { value: 'category', label: 'By category' },
+  { value: 'month', label: 'By expiration month' }
+];
+
+export const SCOPE_OPTIONS: { value: DocumentScope | '', label: string }[] = [
+  { value: 'mine', label: 'Mine' },
+  { value: 'shared', label: 'Shared with me' },
+  { value: '', label: 'All' }
+];
+
+function pick<T extends string>(value: string | null, options: { value: T }[], fallback: T): T {
+  return options.find(o => o.value === value)?.value ?? fallback;
+}
+
+export function filtersFromParams(params: ParamMap): DashboardFilters {
+  return {
+    text: params.get('q') || undefined,
+    category: params.get('category') || undefined,
+    expiresFrom: params.get('from') || undefined,
+    expiresTo: params.get('to') || undefined,
+    scope: pick(params.get('view'), SCOPE_OPTIONS, '') || undefined,
+    status: params.get('status') || '',
+    sort: pick(params.get('sort'), SORT_OPTIONS, 'expiration'),
+    group: pick(params.get('group'), GROUP_OPTIONS, '')
+  };
+}
+
+// Defaults are left out so the plain dashboard URL stays clean
+export function filtersToParams(filters: DashboardFilters): Params {
+  return {
+    q: filters.text || null,
+    category: filters.category || null,
+    from: filters.expiresFrom || null,
+    to: filters.expiresTo || null,
+    view: filters.scope || null,
+    status: filters.status || null,
+    sort: filters.sort === 'expiration' ? null : filters.sort,
+    group: filters.group || null
+  };
+}
+
+// The parts of the filters the storage backend applies
+export function toDocumentQuery(filters: DashboardFilters): DocumentQuery {
+  return {
+    text: filters.text,
+    category: filters.category,
+    expiresFrom: filters.expiresFrom,
+    expiresTo: filters.expiresTo,
+    scope: filters.scope
+  };
+}
+
+export function sortDocs(docs: DocItem[], sort: SortOption): DocItem[] {
+  const byExpiration = (a: DocItem, b: DocItem) => a.expirationDate.localeCompare(b.expirationDate);
+  // Copy first: the source is the shared documents signal
+  return [...docs].sort((a, b) => {
+    switch (sort) {
+      case 'title': return a.title.localeCompare(b.title);
+      case 'created': return b.created.localeCompare(a.created);
+      case 'category': return a.category.localeCompare(b.category) || byExpiration(a, b);
+      default: return byExpiration(a, b);
+    }
+  });
+}
+
+export function groupDocs(docs: DocItem[], group: GroupOption): DocGroup[] {
+  if (!group) return [{ key: 'all', label: '', docs }];
+
+  const groups = new Map<string, DocGroup>();
+  for (const doc of docs) {
+    const key = group === 'category' ? doc.category : doc.expirationDate.slice(0, 7);
+    if (!groups.has(key)) {
+      groups.set(key, { key, label: group === 'category' ? key : monthLabel(key), docs: [] });
+    }
+    groups.get(key)!.docs.push(doc);
+  }
+  return [...groups.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// "2025-03" -> "March 2025"
+function monthLabel(key: string): string {
+  const [year, month] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
@@ -1,48 +1,103 @@
 
 import { Component, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { debounceTime } from 'rxjs';
 import { CommonModule, DatePipe } from '@angular/common';
 import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
-import { DataService, DocItem } from '../../services/data.service';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { BatchResult, DataService, DocItem } from '../../services/data.service';
+import { AuthService } from '../../services/auth.service';
+import { SharingService } from '../../services/sharing.service';
+import { CategoryService } from '../../services/category.service';
+import { AttachmentListComponent } from '../attachments/attachment-list.component';
+import { formatLeadDays, parseLeadDays, ReminderService } from '../../services/reminder.service';
+import { SyncService } from '../../services/sync.service';
+import { StatusPolicyService } from '../../services/status-policy.service';
+import { describeInterval, RenewalInterval, RENEWAL_UNITS } from '../../services/renewal';
+import { buildCalendar, documentUid, parseCalendar } from '../../services/ical';
+import { downloadFile } from '../../services/download';
+import { documentsToCsv, documentsToJson } from '../../services/document-transfer';
+import {
+  DashboardFilters, filtersFromParams, filtersToParams, GROUP_OPTIONS, groupDocs, SCOPE_OPTIONS, SORT_OPTIONS,
+  sortDocs, toDocumentQuery
+} from './dashboard-filters';
 
 @Component({
   selector: 'app-dashboard',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, DatePipe],
+  imports: [CommonModule, ReactiveFormsModule, DatePipe, RouterLink, AttachmentListComponent],
   templateUrl: './dashboard.component.html',
   styles: []
 })
 export class DashboardComponent {
   dataService = inject(DataService);
+  syncService = inject(SyncService);
+  reminderService = inject(ReminderService);
+  categoryService = inject(CategoryService);
+  authService = inject(AuthService);
+  sharingService = inject(SharingService);
+  statusPolicy = inject(StatusPolicyService);
   fb = inject(FormBuilder);
+  route = inject(ActivatedRoute);
+  router = inject(Router);
 
   showForm = signal(false);
+  showSyncDetails = signal(false);
+  showFilters = signal(false);
+  openMenu = signal<'import' | 'export' | null>(null);
+  // Document whose renewal history is expanded
+  historyDocId = signal<string | null>(null);
+  // Document currently being edited; null means the form creates a new entry
+  editingDoc = signal<DocItem | null>(null);
+  // Last deleted documents, offered for undo until the toast times out
+  undoDocs = signal<DocItem[]>([]);
+  private undoTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly UNDO_TIMEOUT = 8000;
+  // Multi-select for bulk actions
+  selecting = signal(false);
+  selectedIds = signal<ReadonlySet<string>>(new Set());
+  // Outcome of the last bulk action
+  bulkSummary = signal<{ label: string, total: number, failed: BatchResult[] } | null>(null);
   docForm: FormGroup;
+  filterForm: FormGroup;
 
-  // Derived state for filtering
+  readonly renewalUnits = RENEWAL_UNITS;
+  readonly describeInterval = describeInterval;
+  readonly sortOptions = SORT_OPTIONS;
+  readonly groupOptions = GROUP_OPTIONS;
+  readonly scopeOptions = SCOPE_OPTIONS;
+
+  // Current view state, mirrored from the URL query params
+  filters = signal<DashboardFilters>(filtersFromParams(this.route.snapshot.queryParamMap));
+
+  // Derived state for filtering. Text, category and dates are already applied by the
+  // storage backend; status depends on today's date so it is applied here.
   sortedDocs = computed(() => {
-    const docs = this.dataService.documents();
-    return docs.sort((a, b) => {
-      return new Date(a.expirationDate).getTime() - new Date(b.expirationDate).getTime();
-    });
+    const { status, sort } = this.filters();
+    const docs = this.dataService.documents().filter(d => !status || this.statusPolicy.statusOf(d).key === status);
+    return sortDocs(docs, sort);
+  });
+
+  groupedDocs = computed(() => groupDocs(this.sortedDocs(), this.filters().group));
+
+  // Selected documents that are still in the filtered list
+  selectedDocs = computed(() => this.sortedDocs().filter(d => this.selectedIds().has(d.id)));
+  allSelected = computed(() => this.sortedDocs().length > 0 && this.selectedDocs().length === this.sortedDocs().length);
+
+  // Sync status only matters for remote backends
+  showSyncStatus = computed(() => {
+    if (this.dataService.config().storageBackend !== 'pocketbase') return false;
+    return !this.syncService.isOnline() || this.syncService.queue().length > 0;
   });
 
+  // One card per status, in order of urgency
   stats = computed(() => {
     const docs = this.dataService.documents();
-    const now = new Date();
-    let expired = 0;
-    let urgent = 0;
-    let ok = 0;
-
-    docs.forEach(d => {
-      const exp = new Date(d.expirationDate);
-      const diffDays = Math.ceil((exp.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-      
-      if (diffDays < 0) expired++;
-      else if (diffDays <= 7) urgent++;
-      else ok++;
-    });
-
-    return { expired, urgent, ok, total: docs.length };
+    const counts = this.statusPolicy.countByStatus(docs);
+    return {
+      total: docs.length,
+      levels: this.statusPolicy.levels().map(level => ({ ...level, count: counts[level.key] }))
+    };
   });
 
   constructor() {
@@ -50,51 +105,280 @@ export class DashboardComponent {
       title: ['', Validators.required],
       category: ['General', Validators.required],
       details: [''],
-      expirationDate: ['', Validators.required]
+      expirationDate: ['', Validators.required],
+      renewEvery: [null, Validators.min(1)],
+      renewUnit: [''],
+      reminderLeadDays: ['']
     });
+
+    const initial = this.filters();
+    this.filterForm = this.fb.group({
+      text: [initial.text ?? ''],
+      category: [initial.category ?? ''],
+      status: [initial.status],
+      expiresFrom: [initial.expiresFrom ?? ''],
+      expiresTo: [initial.expiresTo ?? ''],
+      scope: [initial.scope ?? ''],
+      sort: [initial.sort],
+      group: [initial.group]
+    });
+    this.showFilters.set(!!(initial.category || initial.status || initial.expiresFrom || initial.expiresTo || initial.group || initial.sort !== 'expiration'));
+
+    // The URL is the source of truth: form edits are written to the query params...
+    this.filterForm.valueChanges
+      .pipe(debounceTime(300), takeUntilDestroyed())
+      .subscribe(value => this.router.navigate([], {
+        relativeTo: this.route,
+        queryParams: filtersToParams({ ...value, text: value.text?.trim() }),
+        replaceUrl: true
+      }));
+
+    // ...and param changes (including back/forward and shared links) drive the view and the backend query
+    this.route.queryParamMap
+      .pipe(takeUntilDestroyed())
+      .subscribe(params => {
+        const filters = filtersFromParams(params);
+        this.filters.set(filters);
+        this.filterForm.patchValue({
+          ...filters,
+          text: filters.text ?? '',
+          category: filters.category ?? '',
+          expiresFrom: filters.expiresFrom ?? '',
+          expiresTo: filters.expiresTo ?? '',
+          scope: filters.scope ?? ''
+        }, { emitEvent: false });
+
+        const query = toDocumentQuery(filters);
+        if (JSON.stringify(query) !== JSON.stringify(this.dataService.query())) {
+          this.dataService.setQuery(query);
+        }
+      });
+  }
+
+  // The Mine / Shared / All view is not a filter and survives clearing
+  clearFilters() {
+    this.filterForm.reset({ text: '', category: '', status: '', expiresFrom: '', expiresTo: '', scope: this.filters().scope ?? '', sort: 'expiration', group: '' });
+  }
+
+  hasActiveFilters(): boolean {
+    const f = this.filters();
+    return !!(f.text || f.category || f.status || f.expiresFrom || f.expiresTo);
   }
 
   toggleForm() {
-    this.showForm.update(v => !v);
+    if (this.showForm()) {
+      this.closeForm();
+    } else {
+      this.showForm.set(true);
+    }
+  }
+
+  startEdit(doc: DocItem) {
+    this.editingDoc.set(doc);
+    this.docForm.reset({
+      title: doc.title,
+      category: doc.category,
+      details: doc.details,
+      // The date input expects yyyy-MM-dd
+      expirationDate: doc.expirationDate,
+      renewEvery: doc.renewalInterval?.every ?? null,
+      renewUnit: doc.renewalInterval?.unit ?? '',
+      reminderLeadDays: formatLeadDays(doc.reminderLeadDays)
+    });
+    this.showForm.set(true);
+  }
+
+  closeForm() {
+    this.editingDoc.set(null);
+    this.docForm.reset({category: 'General', renewUnit: '', reminderLeadDays: ''});
+    this.showForm.set(false);
   }
 
   async onSubmit() {
     if (this.docForm.valid) {
       const formVal = this.docForm.value;
-      await this.dataService.addDocument({
+      const values = {
         title: formVal.title,
         category: formVal.category,
         details: formVal.details,
-        expirationDate: new Date(formVal.expirationDate).toISOString()
-      });
-      this.docForm.reset({category: 'General'});
-      this.showForm.set(false);
+        expirationDate: formVal.expirationDate,
+        renewalInterval: this.readRenewalInterval(),
+        reminderLeadDays: this.readReminderLeadDays()
+      };
+
+      const editing = this.editingDoc();
+      if (editing) {
+        await this.dataService.updateDocument(editing.id, values);
+      } else {
+        await this.dataService.addDocument(values);
+      }
+      this.closeForm();
     }
   }
 
-  deleteDoc(id: string) {
-    if(confirm('Are you sure you want to delete this document?')) {
-      this.dataService.deleteDocument(id);
+  // Both parts are needed; leaving either empty means the document does not recur
+  private readRenewalInterval(): RenewalInterval | null {
+    const { renewEvery, renewUnit } = this.docForm.value;
+    if (!renewEvery || !renewUnit) return null;
+    return { every: Number(renewEvery), unit: renewUnit };
+  }
+
+  // Empty means "use the category or default lead times"
+  private readReminderLeadDays(): number[] | null {
+    const days = parseLeadDays(this.docForm.value.reminderLeadDays || '');
+    return days.length ? days : null;
+  }
+
+  // Placeholder showing which lead times apply when the field is left empty
+  inheritedLeadDays(): string {
+    const category = this.docForm.get('category')?.value;
+    const { reminders } = this.dataService.config();
+    return formatLeadDays(reminders.categoryLeadDays[category]?.length ? reminders.categoryLeadDays[category] : reminders.defaultLeadDays);
+  }
+
+  renewDoc(doc: DocItem) {
+    if (doc.renewalInterval && confirm(`Renew "${doc.title}" for another period (${describeInterval(doc.renewalInterval).toLowerCase()})?`)) {
+      this.dataService.renewDocument(doc.id);
     }
   }
 
-  getDaysRemaining(dateStr: string): number {
-    const now = new Date();
-    const exp = new Date(dateStr);
-    return Math.ceil((exp.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+  toggleHistory(id: string) {
+    this.historyDocId.update(current => current === id ? null : id);
   }
 
-  getStatusColor(dateStr: string): string {
-    const days = this.getDaysRemaining(dateStr);
-    if (days < 0) return 'border-red-500 bg-red-900/20 text-red-200';
-    if (days <= 7) return 'border-amber-500 bg-amber-900/20 text-amber-200';
-    return 'border-emerald-500 bg-emerald-900/20 text-emerald-200';
+  toggleMenu(menu: 'import' | 'export') {
+    this.openMenu.update(current => current === menu ? null : menu);
   }
-  
-  getStatusText(dateStr: string): string {
-      const days = this.getDaysRemaining(dateStr);
-      if (days < 0) return 'Expired';
-      if (days <= 7) return 'Renew Soon';
-      return 'Active';
+
+  // --- Export / Import ---
+
+  // Exports cover the list as currently filtered
+  exportDocuments(format: 'csv' | 'json' | 'ics') {
+    this.openMenu.set(null);
+    const docs = this.sortedDocs();
+    switch (format) {
+      case 'csv':
+        downloadFile('documinder.csv', documentsToCsv(docs), 'text/csv;charset=utf-8');
+        break;
+      case 'json':
+        downloadFile('documinder.json', documentsToJson(docs), 'application/json');
+        break;
+      case 'ics':
+        downloadFile('documinder.ics', buildCalendar(docs, doc => this.reminderService.leadDaysFor(doc)), 'text/calendar;charset=utf-8');
+        break;
+    }
+  }
+
+  async importCalendar(event: Event) {
+    this.openMenu.set(null);
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    const events = parseCalendar(await file.text());
+    // Events exported from this app carry our UID; skip the ones we already track
+    const known = new Set(this.dataService.documents().map(d => documentUid(d.id)));
+    const fresh = events.filter(e => !e.uid || !known.has(e.uid));
+
+    if (!fresh.length) {
+      alert(events.length ? 'All events in this calendar are already tracked.' : 'No events with a date were found in this file.');
+      return;
+    }
+    if (confirm(`Import ${fresh.length} document(s) from "${file.name}"?`)) {
+      const saved = await this.dataService.importDocuments(fresh.map(e => e.doc));
+      alert(`Imported ${saved} document(s).`);
+    }
+  }
+
+  // Deleted documents go to the trash; the toast offers to bring them straight back
+  async deleteDoc(doc: DocItem) {
+    if (await this.dataService.deleteDocument(doc.id)) {
+      this.offerUndo([doc]);
+    }
+  }
+
+  private offerUndo(docs: DocItem[]) {
+    this.dismissUndo();
+    this.undoDocs.set(docs);
+    this.undoTimer = setTimeout(() => this.undoDocs.set([]), this.UNDO_TIMEOUT);
+  }
+
+  async undoDelete() {
+    const docs = this.undoDocs();
+    this.dismissUndo();
+    if (docs.length === 1) {
+      await this.dataService.restoreDocument(docs[0].id);
+    } else if (docs.length) {
+      this.showBulkSummary('Restored', await this.dataService.bulkRestore(docs), true);
+    }
+  }
+
+  dismissUndo() {
+    if (this.undoTimer) clearTimeout(this.undoTimer);
+    this.undoTimer = null;
+    this.undoDocs.set([]);
+  }
+
+  // --- Bulk Actions ---
+
+  toggleSelecting() {
+    this.selecting.update(on => !on);
+    this.selectedIds.set(new Set());
+    this.bulkSummary.set(null);
+  }
+
+  toggleSelected(doc: DocItem) {
+    const ids = new Set(this.selectedIds());
+    if (!ids.delete(doc.id)) ids.add(doc.id);
+    this.selectedIds.set(ids);
+  }
+
+  toggleSelectAll() {
+    this.selectedIds.set(this.allSelected() ? new Set() : new Set(this.sortedDocs().map(d => d.id)));
+  }
+
+  async bulkDelete() {
+    const deleted = await this.runBulk('Moved to the trash', doc => this.sharingService.canDelete(doc), docs => this.dataService.bulkDelete(docs));
+    if (deleted.length) this.offerUndo(deleted);
+  }
+
+  async bulkSetCategory(category: string) {
+    if (!category) return;
+    await this.runBulk(`Moved to ${category}`, doc => this.sharingService.canEdit(doc), docs => this.dataService.bulkSetCategory(docs, category));
+  }
+
+  async bulkShiftExpiration(value: string) {
+    const days = Math.trunc(Number(value));
+    if (!days) return;
+    const label = `Expiration moved ${Math.abs(days)} day(s) ${days > 0 ? 'later' : 'earlier'}`;
+    await this.runBulk(label, doc => this.sharingService.canEdit(doc), docs => this.dataService.bulkShiftExpiration(docs, days));
+  }
+
+  async bulkRenew() {
+    if (!confirm(`Renew ${this.selectedDocs().length} document(s) for another period each?`)) return;
+    await this.runBulk('Renewed', doc => this.sharingService.canEdit(doc), docs => this.dataService.bulkRenew(docs));
+  }
+
+  // Runs a bulk operation on the selected documents the user may change; the rest are reported as
+  // failures. Failed documents stay selected for another try. Returns the documents that succeeded.
+  private async runBulk(label: string, allowed: (doc: DocItem) => boolean, operation: (docs: DocItem[]) => Promise<BatchResult[]>): Promise<DocItem[]> {
+    const selected = this.selectedDocs();
+    if (!selected.length) return [];
+    const permitted = selected.filter(allowed);
+    const denied: BatchResult[] = selected.filter(d => !allowed(d)).map(d => ({ id: d.id, title: d.title, error: 'Not permitted' }));
+    const results = [...(permitted.length ? await operation(permitted) : []), ...denied];
+
+    this.showBulkSummary(label, results);
+    this.selectedIds.set(new Set(results.filter(r => r.error).map(r => r.id)));
+    const succeeded = new Set(results.filter(r => !r.error).map(r => r.id));
+    return permitted.filter(d => succeeded.has(d.id));
+  }
+
+  // `onlyFailures` keeps quiet when everything worked
+  private showBulkSummary(label: string, results: BatchResult[], onlyFailures = false) {
+    const failed = results.filter(r => r.error);
+    if (onlyFailures && !failed.length) return;
+    this.bulkSummary.set({ label, total: results.length, failed });
   }
 }
@@ -0,0 +1,116 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule, DatePipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { DataService, DocItem } from '../../services/data.service';
+import { SharingService } from '../../services/sharing.service';
+import { CategoryService } from '../../services/category.service';
+import { Observation, ObservationService } from '../../services/observation.service';
+import { describeInterval } from '../../services/renewal';
+import { StatusPolicyService } from '../../services/status-policy.service';
+import { AttachmentListComponent } from '../attachments/attachment-list.component';
+import { SharingPanelComponent } from '../sharing/sharing-panel.component';
+
+@Component({
+  selector: 'app-document-detail',
+  standalone: true,
+  imports: [CommonModule, FormsModule, DatePipe, RouterLink, AttachmentListComponent, SharingPanelComponent],
+  templateUrl: './document-detail.component.html',
+  styles: []
+})
+export class DocumentDetailComponent {
+  dataService = inject(DataService);
+  categoryService = inject(CategoryService);
+  observationService = inject(ObservationService);
+  sharingService = inject(SharingService);
+  statusPolicy = inject(StatusPolicyService);
+  route = inject(ActivatedRoute);
+
+  readonly describeInterval = describeInterval;
+
+  docId = signal<string>('');
+  // Fallback for documents outside the loaded (filtered) list
+  fetchedDoc = signal<DocItem | null>(null);
+  // Prefer the loaded copy so attachment and realtime updates show up here too
+  doc = computed(() => this.dataService.documents().find(d => d.id === this.docId()) ?? this.fetchedDoc());
+  notFound = signal(false);
+
+  observations = signal<Observation[]>([]);
+  isLoading = signal(false);
+  error = signal<string | null>(null);
+
+  newText = '';
+  editingId = signal<string | null>(null);
+  editText = '';
+
+  constructor() {
+    this.route.paramMap.pipe(takeUntilDestroyed()).subscribe(params => {
+      this.docId.set(params.get('id') ?? '');
+      this.load();
+    });
+  }
+
+  async load() {
+    const id = this.docId();
+    this.isLoading.set(true);
+    this.error.set(null);
+    this.notFound.set(false);
+    try {
+      const doc = await this.dataService.getDocument(id);
+      this.fetchedDoc.set(doc);
+      if (!doc) {
+        this.notFound.set(true);
+        return;
+      }
+      this.observations.set(await this.observationService.list(id));
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.error.set('Failed to load observations: ' + errorMessage);
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  async addObservation() {
+    await this.run('add observation', async () => {
+      const created = await this.observationService.add(this.docId(), this.newText);
+      this.observations.update(list => [...list, created]);
+      this.newText = '';
+    });
+  }
+
+  startEdit(observation: Observation) {
+    this.editingId.set(observation.id);
+    this.editText = observation.text;
+  }
+
+  async saveEdit(observation: Observation) {
+    await this.run('update observation', async () => {
+      const updated = await this.observationService.update(observation.id, this.editText);
+      this.observations.update(list => list.map(o => o.id === updated.id ? updated : o));
+      this.editingId.set(null);
+    });
+  }
+
+  async deleteObservation(observation: Observation) {
+    if (!confirm('Delete this observation?')) return;
+    await this.run('delete observation', async () => {
+      await this.observationService.delete(observation.id);
+      this.observations.update(list => list.filter(o => o.id !== observation.id));
+    });
+  }
+
+  private async run(action: string, change: () => Promise<void>) {
+    this.isLoading.set(true);
+    this.error.set(null);
+    try {
+      await change();
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.error.set(`Failed to ${action}: ` + errorMessage);
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+}
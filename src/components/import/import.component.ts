@@ -0,0 +1,107 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router, RouterLink } from '@angular/router';
+import { DataService, DocItem } from '../../services/data.service';
+import { CategoryService } from '../../services/category.service';
+import {
+  buildPreview, ColumnMapping, guessMapping, PreviewRow, readTable, SourceTable, TRANSFER_FIELDS
+} from '../../services/document-transfer';
+
+type ImportStep = 'upload' | 'mapping' | 'preview';
+
+@Component({
+  selector: 'app-import',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './import.component.html',
+  styles: []
+})
+export class ImportComponent {
+  dataService = inject(DataService);
+  categoryService = inject(CategoryService);
+  router = inject(Router);
+
+  readonly fields = TRANSFER_FIELDS;
+
+  step = signal<ImportStep>('upload');
+  fileName = signal('');
+  table = signal<SourceTable | null>(null);
+  mapping = signal<ColumnMapping>({ title: '', category: '', details: '', expirationDate: '' });
+  existingDocs = signal<DocItem[]>([]);
+  skipDuplicates = signal(true);
+  parseError = signal<string | null>(null);
+  isImporting = signal(false);
+
+  preview = computed<PreviewRow[]>(() => {
+    const table = this.table();
+    if (!table) return [];
+    // Rows without a category land in the first active category
+    const defaultCategory = this.categoryService.activeNames()[0] ?? 'General';
+    return buildPreview(table, this.mapping(), this.existingDocs(), defaultCategory);
+  });
+
+  importable = computed(() => this.preview().filter(row => row.doc && !(this.skipDuplicates() && row.duplicate)));
+  invalidCount = computed(() => this.preview().filter(row => row.errors.length).length);
+  duplicateCount = computed(() => this.preview().filter(row => row.duplicate).length);
+
+  // Every required field needs a source column before the preview makes sense
+  mappingComplete = computed(() => this.fields.every(f => !f.required || this.mapping()[f.field]));
+
+  async onFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    this.parseError.set(null);
+    try {
+      const table = readTable(file.name, await file.text());
+      if (!table.rows.length) {
+        this.parseError.set('The file contains no rows.');
+        return;
+      }
+      this.fileName.set(file.name);
+      this.table.set(table);
+      this.mapping.set(guessMapping(table.columns));
+      this.step.set('mapping');
+      // Loaded in the background; only needed once the preview is shown
+      this.dataService.fetchAllDocuments()
+        .then(docs => this.existingDocs.set(docs))
+        .catch(e => console.error('Could not load existing documents for duplicate detection', e));
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      this.parseError.set(`Could not read ${file.name}: ${message}`);
+    }
+  }
+
+  setMapping(field: keyof ColumnMapping, column: string) {
+    this.mapping.update(m => ({ ...m, [field]: column }));
+  }
+
+  // Sample values help identify what a column contains
+  sampleFor(column: string): string {
+    return this.table()?.rows.slice(0, 3).map(r => r[column]).filter(Boolean).join(', ') ?? '';
+  }
+
+  async runImport() {
+    const docs = this.importable().map(row => row.doc!);
+    if (!docs.length) return;
+
+    this.isImporting.set(true);
+    const saved = await this.dataService.importDocuments(docs);
+    this.isImporting.set(false);
+
+    alert(`Imported ${saved} of ${docs.length} document(s).`);
+    if (saved === docs.length) {
+      this.router.navigate(['/dashboard']);
+    }
+  }
+
+  reset() {
+    this.step.set('upload');
+    this.table.set(null);
+    this.fileName.set('');
+    this.parseError.set(null);
+  }
+}
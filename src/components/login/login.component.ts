@@ -2,7 +2,8 @@
 import { Component, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule, FormBuilder, Validators } from '@angular/forms';
-import { AuthService } from '../../services/auth.service';
+import { ActivatedRoute, Router } from '@angular/router';
+import { AuthProvider, AuthService } from '../../services/auth.service';
 import { DataService } from '../../services/data.service';
 
 @Component({
@@ -16,35 +17,111 @@ export class LoginComponent {
   authService = inject(AuthService);
   dataService = inject(DataService);
   fb = inject(FormBuilder);
+  router = inject(Router);
+  route = inject(ActivatedRoute);
   
   errorMsg = signal('');
   isLoggingIn = signal(false);
+  // OAuth2 providers configured on the PocketBase server
+  providers = signal<AuthProvider[]>([]);
+
+  // Set when the previous session ended on its own (see AuthService.endSession)
+  readonly sessionNotice = this.noticeFor(this.route.snapshot.queryParamMap.get('reason'));
 
   loginForm = this.fb.group({
     email: ['', [Validators.required, Validators.email]],
-    password: ['', Validators.required]
+    password: ['', Validators.required],
+    remember: [false]
   });
 
+  constructor() {
+    // Coming back from an identity provider: the code and state are in the real query string
+    const params = new URLSearchParams(window.location.search);
+    if ((params.has('code') || params.has('error')) && this.authService.hasPendingOAuth2()) {
+      this.finishOAuth2(params);
+    }
+    this.loadProviders();
+  }
+
+  async signInWith(provider: AuthProvider) {
+    this.errorMsg.set('');
+    this.isLoggingIn.set(true);
+    try {
+      await this.authService.startOAuth2(provider, !!this.loginForm.value.remember, this.returnUrl());
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.errorMsg.set(`Could not start sign-in with ${provider.displayName}: ` + errorMessage);
+      this.isLoggingIn.set(false);
+    }
+  }
+
   async onSubmit() {
     if (this.loginForm.valid) {
       this.isLoggingIn.set(true);
       this.errorMsg.set('');
       
-      const { email, password } = this.loginForm.value;
+      const { email, password, remember } = this.loginForm.value;
       
-      const success = await this.authService.login(email!, password!);
+      const success = await this.authService.login(email!, password!, !!remember);
       
       this.isLoggingIn.set(false);
       
-      if (!success) {
-        const isPb = this.dataService.config().usePocketBase;
+      if (success) {
+        this.router.navigateByUrl(this.returnUrl());
+      } else {
+        const isPb = this.dataService.config().storageBackend === 'pocketbase';
         if (isPb) {
              this.errorMsg.set('Invalid Database Credentials. Please check your email and password.');
         } else {
-             this.errorMsg.set('Invalid credentials. Default is docuser@docuser.com/docuser');
+             this.errorMsg.set('Invalid credentials, or the account has been disabled. Ask an admin to reset your password.');
         }
         this.loginForm.get('password')?.reset();
       }
     }
   }
+
+  private async loadProviders() {
+    try {
+      this.providers.set(await this.authService.authProviders());
+    } catch (e) {
+      // Password sign-in still works; the server may be older or unreachable
+      console.warn('Failed to load OAuth2 providers', e);
+    }
+  }
+
+  private async finishOAuth2(params: URLSearchParams) {
+    // Drop the code from the address bar so it is not reused or bookmarked
+    history.replaceState(null, '', window.location.pathname + window.location.hash);
+
+    this.isLoggingIn.set(true);
+    try {
+      if (params.has('error')) {
+        throw new Error(params.get('error_description') || params.get('error') || 'Access denied');
+      }
+      const returnUrl = await this.authService.completeOAuth2(params.get('code')!, params.get('state') ?? '');
+      this.router.navigateByUrl(this.safeUrl(returnUrl));
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.errorMsg.set('Single sign-on failed: ' + errorMessage);
+    } finally {
+      this.isLoggingIn.set(false);
+    }
+  }
+
+  private returnUrl(): string {
+    return this.safeUrl(this.route.snapshot.queryParamMap.get('returnUrl'));
+  }
+
+  // Only app-internal paths; anything else falls back to the dashboard
+  private safeUrl(url: string | null): string {
+    return url && url.startsWith('/') && !url.startsWith('//') ? url : '/dashboard';
+  }
+
+  private noticeFor(reason: string | null): string {
+    switch (reason) {
+      case 'expired': return 'Your session has expired. Please sign in again.';
+      case 'idle': return 'You were signed out after a period of inactivity.';
+      default: return '';
+    }
+  }
 }
@@ -0,0 +1,23 @@
+import { Component, inject, signal } from '@angular/core';
+import { CommonModule, DatePipe } from '@angular/common';
+import { ReminderService } from '../../services/reminder.service';
+
+@Component({
+  selector: 'app-notification-center',
+  standalone: true,
+  imports: [CommonModule, DatePipe],
+  templateUrl: './notification-center.component.html',
+  styles: []
+})
+export class NotificationCenterComponent {
+  reminderService = inject(ReminderService);
+
+  isOpen = signal(false);
+
+  toggle() {
+    this.isOpen.update(v => !v);
+    if (!this.isOpen()) {
+      this.reminderService.markAllRead();
+    }
+  }
+}
@@ -1,9 +1,15 @@
 
-import { Component, inject, signal } from '@angular/core';
+import { Component, effect, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
-import { DataService, AppConfig } from '../../services/data.service';
+import { ReactiveFormsModule, FormArray, FormBuilder, FormControl, FormGroup, Validators } from '@angular/forms';
+import { DataService, AppConfig, PocketBaseSchema, StatusTier, StorageBackend } from '../../services/data.service';
+import { DEFAULT_PB_SCHEMA } from '../../services/config.service';
+import { CategoryService } from '../../services/category.service';
+import { formatLeadDays, parseLeadDays, ReminderService } from '../../services/reminder.service';
 import { AuthService } from '../../services/auth.service';
+import { CheckStatus, DiagnosticsReport, SchemaService } from '../../services/schema.service';
+import { STATUS_TONES, StatusPolicyService } from '../../services/status-policy.service';
+import { generateId } from '../../services/storage/storage-utils';
 
 @Component({
   selector: 'app-settings',
@@ -15,42 +21,339 @@ import { AuthService } from '../../services/auth.service';
 export class SettingsComponent {
   dataService = inject(DataService);
   authService = inject(AuthService);
+  reminderService = inject(ReminderService);
+  categoryService = inject(CategoryService);
+  schemaService = inject(SchemaService);
+  statusPolicy = inject(StatusPolicyService);
   fb = inject(FormBuilder);
+  notificationPermission = signal<string>(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
 
   settingsForm: FormGroup;
   
-  // Test Connection State
+  readonly statusTones = STATUS_TONES;
+
+  readonly backends: { value: StorageBackend, label: string, description: string }[] = [
+    { value: 'localStorage', label: 'LocalStorage', description: 'Saved in this browser only. Limited to a few megabytes.' },
+    { value: 'indexedDb', label: 'IndexedDB', description: 'Saved in this browser only, without the LocalStorage size limit.' },
+    { value: 'pocketbase', label: 'PocketBase', description: 'Synced through a remote PocketBase server.' }
+  ];
+
+  // Labels for the schema mapping form; keys follow PocketBaseSchema
+  readonly schemaGroups: { key: keyof PocketBaseSchema, label: string, fields: { key: string, label: string }[] }[] = [
+    { key: 'notes', label: 'Documents', fields: [
+      { key: 'collection', label: 'Collection' },
+      { key: 'title', label: 'Title' },
+      { key: 'details', label: 'Details' },
+      { key: 'category', label: 'Category' },
+      { key: 'expirationDate', label: 'Expiration date' },
+      { key: 'renewalInterval', label: 'Renewal interval' },
+      { key: 'renewalHistory', label: 'Renewal history' },
+      { key: 'reminderLeadDays', label: 'Reminder lead days' },
+      { key: 'remindersSent', label: 'Reminders sent' },
+      { key: 'notified', label: 'Notified' },
+      { key: 'attachments', label: 'Attachments' },
+      { key: 'owner', label: 'Owner' },
+      { key: 'readers', label: 'Shared for reading' },
+      { key: 'editors', label: 'Shared for editing' },
+      { key: 'team', label: 'Shared with team' },
+      { key: 'teamAccess', label: 'Team access' },
+      { key: 'deletedAt', label: 'Deleted at' }
+    ] },
+    { key: 'observations', label: 'Observations', fields: [
+      { key: 'collection', label: 'Collection' },
+      { key: 'noteId', label: 'Document link' },
+      { key: 'text', label: 'Text' },
+      { key: 'author', label: 'Author name' },
+      { key: 'authorId', label: 'Author id' }
+    ] },
+    { key: 'categories', label: 'Categories', fields: [
+      { key: 'collection', label: 'Collection' }
+    ] },
+    { key: 'users', label: 'Users', fields: [
+      { key: 'collection', label: 'Auth collection' },
+      { key: 'role', label: 'Role' },
+      { key: 'team', label: 'Team' }
+    ] },
+    { key: 'audit', label: 'Audit Log', fields: [
+      { key: 'collection', label: 'Collection' },
+      { key: 'timestamp', label: 'Timestamp' },
+      { key: 'action', label: 'Action' },
+      { key: 'targetId', label: 'Document id' },
+      { key: 'targetTitle', label: 'Document title' },
+      { key: 'actorId', label: 'User id' },
+      { key: 'actorName', label: 'User name' },
+      { key: 'changes', label: 'Changes' }
+    ] }
+  ];
+
+  // Diagnostics State
   isTesting = signal(false);
-  testResult = signal<{success: boolean, message: string} | null>(null);
+  report = signal<DiagnosticsReport | null>(null);
+
+  // Superuser sign-in and bootstrap; credentials are never saved
+  superuserForm = this.fb.group({
+    email: ['', [Validators.required, Validators.email]],
+    password: ['', Validators.required]
+  });
+  superuserError = signal<string | null>(null);
+  isBootstrapping = signal(false);
+  bootstrapLog = signal<string[]>([]);
 
   constructor() {
     this.settingsForm = this.fb.group({
-      usePocketBase: [false],
+      storageBackend: ['localStorage', Validators.required],
       pbUrl: ['http://127.0.0.1:8090', Validators.required],
-      pbAuthToken: [''] // Optional fallback token
+      pbAuthToken: [''], // Optional fallback token
+      pbSchema: this.fb.group({
+        notes: this.schemaGroup(DEFAULT_PB_SCHEMA.notes),
+        observations: this.schemaGroup(DEFAULT_PB_SCHEMA.observations),
+        categories: this.schemaGroup(DEFAULT_PB_SCHEMA.categories),
+        users: this.schemaGroup(DEFAULT_PB_SCHEMA.users),
+        audit: this.schemaGroup(DEFAULT_PB_SCHEMA.audit)
+      }),
+      reminders: this.fb.group({
+        defaultLeadDays: [''],
+        browserNotifications: [false],
+        // One control per category, added as categories load
+        categoryLeadDays: this.fb.group({})
+      }),
+      session: this.fb.group({
+        idleTimeoutMinutes: [0, [Validators.required, Validators.min(0)]]
+      }),
+      trash: this.fb.group({
+        retentionDays: [30, [Validators.required, Validators.min(0)]]
+      }),
+      status: this.fb.group({
+        tiers: this.fb.array<FormGroup>([]),
+        // One control per category, added as categories load
+        categoryDays: this.fb.group({})
+      })
     });
 
     // Load current settings into form
     const current = this.dataService.config();
-    this.settingsForm.patchValue(current);
+    this.settingsForm.patchValue({
+      ...current,
+      reminders: {
+        defaultLeadDays: formatLeadDays(current.reminders.defaultLeadDays),
+        browserNotifications: current.reminders.browserNotifications
+      }
+    });
+    current.status.tiers.forEach(tier => this.statusTiers.push(this.tierGroup(tier)));
+
+    effect(() => {
+      const group = this.settingsForm.get('reminders.categoryLeadDays') as FormGroup;
+      const overrides = this.dataService.config().reminders.categoryLeadDays;
+      for (const name of this.categoryService.activeNames()) {
+        if (!group.contains(name)) {
+          group.addControl(name, new FormControl(formatLeadDays(overrides[name])));
+        }
+      }
+    });
+
+    effect(() => {
+      const group = this.settingsForm.get('status.categoryDays') as FormGroup;
+      const { tiers, categoryDays } = this.dataService.config().status;
+      for (const name of this.categoryService.activeNames()) {
+        if (!group.contains(name)) {
+          group.addControl(name, new FormControl(this.formatCategoryDays(tiers, categoryDays[name])));
+        }
+      }
+    });
+  }
+
+  private schemaGroup(defaults: Record<string, string>): FormGroup {
+    return this.fb.group(Object.fromEntries(
+      Object.entries(defaults).map(([key, value]) => [key, [value, Validators.required]])
+    ));
+  }
+
+  get statusTiers(): FormArray<FormGroup> {
+    return this.settingsForm.get('status.tiers') as FormArray<FormGroup>;
   }
 
+  private tierGroup(tier: StatusTier): FormGroup {
+    return this.fb.group({
+      id: [tier.id],
+      label: [tier.label, Validators.required],
+      days: [tier.days, [Validators.required, Validators.min(0)]],
+      tone: [tier.tone]
+    });
+  }
+
+  addStatusTier() {
+    this.statusTiers.push(this.tierGroup({ id: generateId(), label: 'New Status', days: 14, tone: 'yellow' }));
+  }
+
+  // Category overrides are positional, so the removed tier's position is dropped from them too
+  removeStatusTier(index: number) {
+    this.statusTiers.removeAt(index);
+    const group = this.settingsForm.get('status.categoryDays') as FormGroup;
+    for (const control of Object.values(group.controls)) {
+      const parts = String(control.value || '').split(',');
+      if (parts.length > index) {
+        parts.splice(index, 1);
+        control.setValue(parts.map(part => part.trim()).join(', ').replace(/[,\s]+$/, ''));
+      }
+    }
+  }
+
+  // Default thresholds of the tiers in the form, in the order category overrides are entered
+  tierDaysPlaceholder(): string {
+    return this.statusTiers.controls.map(group => group.value.days).join(', ');
+  }
+
+  // Category overrides are entered like the tiers are listed, e.g. ", 180" moves only the second tier
+  private formatCategoryDays(tiers: StatusTier[], days: Record<string, number> | undefined): string {
+    if (!days) return '';
+    return tiers.map(tier => days[tier.id] ?? '').join(', ').replace(/[,\s]+$/, '');
+  }
+
+  private parseCategoryDays(tiers: StatusTier[], value: string): Record<string, number> {
+    const parts = value.split(',');
+    const days: Record<string, number> = {};
+    tiers.forEach((tier, i) => {
+      const n = parseInt(parts[i] ?? '', 10);
+      if (Number.isInteger(n) && n >= 0) days[tier.id] = n;
+    });
+    return days;
+  }
+
+  // Only active categories get a control; the overrides of archived ones are kept as they were
+  private uncontrolledOverrides<T>(saved: Record<string, T>, controls: Record<string, unknown>): Record<string, T> {
+    return Object.fromEntries(Object.entries(saved).filter(([category]) => !(category in controls)));
+  }
+
+  resetSchema() {
+    this.settingsForm.get('pbSchema')?.reset(DEFAULT_PB_SCHEMA);
+  }
+
+  async enableBrowserNotifications() {
+    this.notificationPermission.set(await this.reminderService.requestBrowserPermission());
+  }
+
+  // Checks the server, collections, fields and API rules against the mapping currently in the form
   async testConnection() {
     const url = this.settingsForm.get('pbUrl')?.value;
     if (!url) return;
 
     this.isTesting.set(true);
-    this.testResult.set(null);
+    this.report.set(null);
+    try {
+      this.report.set(await this.schemaService.diagnose(url, this.settingsForm.get('pbSchema')?.value));
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      this.report.set({ server: { label: 'Server', status: 'error', detail: message }, collections: [], limited: false });
+    } finally {
+      this.isTesting.set(false);
+    }
+  }
 
-    const result = await this.dataService.testConnection(url);
-    
-    this.testResult.set(result);
-    this.isTesting.set(false);
+  async superuserLogin() {
+    const { email, password } = this.superuserForm.value;
+    this.superuserError.set(null);
+    try {
+      await this.schemaService.superuserLogin(this.settingsForm.get('pbUrl')?.value, email!, password!);
+      this.superuserForm.reset();
+      await this.testConnection();
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      this.superuserError.set('Superuser sign-in failed: ' + message);
+    }
+  }
+
+  async applyRecommendedRules() {
+    if (!confirm('Replace the API rules on this PocketBase server with the recommended ones? Custom rules will be overwritten.')) return;
+
+    this.isBootstrapping.set(true);
+    this.bootstrapLog.set([]);
+    try {
+      this.bootstrapLog.set(await this.schemaService.applyRules(
+        this.settingsForm.get('pbUrl')?.value,
+        this.settingsForm.get('pbSchema')?.value
+      ));
+      await this.testConnection();
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      this.bootstrapLog.update(log => [...log, 'Failed: ' + message]);
+    } finally {
+      this.isBootstrapping.set(false);
+    }
+  }
+
+  async bootstrapSchema() {
+    if (!confirm('Create the missing collections and fields on this PocketBase server?')) return;
+
+    this.isBootstrapping.set(true);
+    this.bootstrapLog.set([]);
+    try {
+      this.bootstrapLog.set(await this.schemaService.bootstrap(
+        this.settingsForm.get('pbUrl')?.value,
+        this.settingsForm.get('pbSchema')?.value
+      ));
+      await this.testConnection();
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      this.bootstrapLog.update(log => [...log, 'Failed: ' + message]);
+    } finally {
+      this.isBootstrapping.set(false);
+    }
+  }
+
+  statusIcon(status: CheckStatus): string {
+    switch (status) {
+      case 'ok': return 'fa-circle-check text-emerald-400';
+      case 'warning': return 'fa-triangle-exclamation text-amber-400';
+      case 'error': return 'fa-circle-xmark text-red-400';
+      default: return 'fa-circle-question text-gray-500';
+    }
   }
 
   saveSettings() {
     if (this.settingsForm.valid) {
-      const newConfig: AppConfig = this.settingsForm.value;
+      const formVal = this.settingsForm.value;
+      const categoryLeadDays = this.uncontrolledOverrides(this.dataService.config().reminders.categoryLeadDays, formVal.reminders.categoryLeadDays);
+      for (const [category, value] of Object.entries<string>(formVal.reminders.categoryLeadDays)) {
+        const days = parseLeadDays(value || '');
+        if (days.length) categoryLeadDays[category] = days;
+      }
+
+      const tiers: StatusTier[] = formVal.status.tiers.map((tier: StatusTier) => ({
+        id: tier.id,
+        label: tier.label.trim(),
+        days: Math.floor(Number(tier.days) || 0),
+        tone: tier.tone
+      }));
+      const categoryDays = this.uncontrolledOverrides(this.dataService.config().status.categoryDays, formVal.status.categoryDays);
+      for (const [category, value] of Object.entries<string>(formVal.status.categoryDays)) {
+        const days = this.parseCategoryDays(tiers, value || '');
+        if (Object.keys(days).length) categoryDays[category] = days;
+      }
+
+      // Stray spaces in a collection or field name would only show up as 404s and empty fields
+      const pbSchema = Object.fromEntries(Object.entries<Record<string, string>>(formVal.pbSchema).map(
+        ([group, fields]) => [group, Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, value.trim()]))]
+      )) as unknown as PocketBaseSchema;
+
+      const newConfig: AppConfig = {
+        ...this.dataService.config(),
+        storageBackend: formVal.storageBackend,
+        pbUrl: formVal.pbUrl,
+        pbAuthToken: formVal.pbAuthToken,
+        pbSchema,
+        reminders: {
+          defaultLeadDays: parseLeadDays(formVal.reminders.defaultLeadDays || ''),
+          categoryLeadDays,
+          browserNotifications: formVal.reminders.browserNotifications
+        },
+        session: {
+          idleTimeoutMinutes: Math.floor(Number(formVal.session.idleTimeoutMinutes) || 0)
+        },
+        trash: {
+          retentionDays: Math.floor(Number(formVal.trash.retentionDays) || 0)
+        },
+        status: { tiers, categoryDays }
+      };
       this.dataService.saveConfig(newConfig);
       alert('Configuration saved! Data source updated. Please Logout and Login again to use new settings.');
     }
@@ -0,0 +1,63 @@
+import { Component, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AbstractControl, FormBuilder, ReactiveFormsModule, ValidationErrors, Validators } from '@angular/forms';
+import { Router } from '@angular/router';
+import { AuthService } from '../../services/auth.service';
+import { DataService } from '../../services/data.service';
+import { LocalUserService } from '../../services/local-user.service';
+import { MIN_PASSWORD_LENGTH } from '../../services/password';
+
+// Password and confirmation have to match
+function passwordsMatch(group: AbstractControl): ValidationErrors | null {
+  return group.get('password')?.value === group.get('confirm')?.value ? null : { mismatch: true };
+}
+
+/**
+ * First-run setup for the local backends: creates the admin account, who takes over any
+ * documents saved before accounts existed, and signs them in.
+ */
+@Component({
+  selector: 'app-setup',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './setup.component.html',
+  styles: []
+})
+export class SetupComponent {
+  authService = inject(AuthService);
+  dataService = inject(DataService);
+  localUsers = inject(LocalUserService);
+  fb = inject(FormBuilder);
+  router = inject(Router);
+
+  readonly minPasswordLength = MIN_PASSWORD_LENGTH;
+
+  errorMsg = signal('');
+  isSaving = signal(false);
+
+  setupForm = this.fb.group({
+    name: [''],
+    email: ['', [Validators.required, Validators.email]],
+    password: ['', [Validators.required, Validators.minLength(MIN_PASSWORD_LENGTH)]],
+    confirm: ['', Validators.required]
+  }, { validators: passwordsMatch });
+
+  async onSubmit() {
+    if (this.setupForm.invalid) return;
+
+    this.isSaving.set(true);
+    this.errorMsg.set('');
+    const { name, email, password } = this.setupForm.value;
+    try {
+      const admin = await this.localUsers.setupAdmin({ name: name ?? '', email: email!, password: password! });
+      await this.dataService.adoptLocalDocuments(admin.id);
+      await this.authService.login(email!, password!);
+      this.router.navigate(['/dashboard']);
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.errorMsg.set('Setup failed: ' + errorMessage);
+    } finally {
+      this.isSaving.set(false);
+    }
+  }
+}
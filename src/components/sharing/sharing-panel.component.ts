@@ -0,0 +1,73 @@
+import { Component, computed, effect, inject, input, signal, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DataService, DocItem } from '../../services/data.service';
+import { SharingService } from '../../services/sharing.service';
+import { DocSharing, SHARE_ACCESS_OPTIONS, ShareAccess, sharingOf } from '../../services/sharing';
+
+@Component({
+  selector: 'app-sharing-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './sharing-panel.component.html',
+  styles: []
+})
+export class SharingPanelComponent {
+  dataService = inject(DataService);
+  sharingService = inject(SharingService);
+
+  doc = input.required<DocItem>();
+
+  readonly accessOptions = SHARE_ACCESS_OPTIONS;
+
+  // Edited copy of the document's sharing; reset whenever the document changes
+  draft = signal<DocSharing>({ readers: [], editors: [], team: '', teamAccess: 'read' });
+  isDirty = computed(() => JSON.stringify(this.draft()) !== JSON.stringify(sharingOf(this.doc())));
+
+  // Everyone except the owner, who always has full access
+  candidates = computed(() => {
+    const owner = this.doc().owner || this.dataService.viewer()?.id;
+    return this.sharingService.users().filter(u => u.id !== owner);
+  });
+
+  constructor() {
+    effect(() => {
+      const doc = this.doc();
+      untracked(() => this.draft.set(sharingOf(doc)));
+    });
+  }
+
+  accessFor(userId: string): ShareAccess | '' {
+    const draft = this.draft();
+    if (draft.editors.includes(userId)) return 'edit';
+    if (draft.readers.includes(userId)) return 'read';
+    return '';
+  }
+
+  setAccess(userId: string, access: ShareAccess | '') {
+    this.draft.update(draft => ({
+      ...draft,
+      readers: access === 'read' ? [...draft.readers, userId] : draft.readers.filter(id => id !== userId),
+      editors: access === 'edit' ? [...draft.editors, userId] : draft.editors.filter(id => id !== userId)
+    }));
+  }
+
+  setTeam(team: string) {
+    this.draft.update(draft => ({ ...draft, team }));
+  }
+
+  setTeamAccess(teamAccess: ShareAccess) {
+    this.draft.update(draft => ({ ...draft, teamAccess }));
+  }
+
+  async save() {
+    await this.sharingService.share(this.doc(), this.draft());
+  }
+
+  // Documents from before ownership existed are open to everyone until someone takes them over
+  async claim() {
+    const viewer = this.dataService.viewer();
+    if (viewer && confirm('Become the owner of this document? Only you and the people you share it with will see it.')) {
+      await this.dataService.updateDocument(this.doc().id, { owner: viewer.id });
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule, DatePipe } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { DataService, DocItem } from '../../services/data.service';
+import { SharingService } from '../../services/sharing.service';
+
+/**
+ * Deleted documents, which can be restored or deleted for good. Whatever is left after the
+ * retention period from the settings is purged automatically.
+ */
+@Component({
+  selector: 'app-trash',
+  standalone: true,
+  imports: [CommonModule, DatePipe, RouterLink],
+  templateUrl: './trash.component.html',
+  styles: []
+})
+export class TrashComponent {
+  dataService = inject(DataService);
+  sharingService = inject(SharingService);
+
+  message = signal<string | null>(null);
+
+  retentionDays = computed(() => this.dataService.config().trash.retentionDays);
+
+  // Most recently deleted first
+  docs = computed(() => [...this.dataService.trash()].sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? '')));
+
+  constructor() {
+    this.dataService.loadTrash();
+  }
+
+  // When the retention period runs out; null when documents are kept until the trash is emptied
+  purgeDate(doc: DocItem): Date | null {
+    const days = this.retentionDays();
+    if (!days || !doc.deletedAt) return null;
+    return new Date(Date.parse(doc.deletedAt) + days * 24 * 60 * 60 * 1000);
+  }
+
+  async restore(doc: DocItem) {
+    this.message.set(null);
+    if (await this.dataService.restoreDocument(doc.id)) {
+      this.message.set(`Restored "${doc.title}".`);
+    }
+  }
+
+  async purge(doc: DocItem) {
+    if (!confirm(`Permanently delete "${doc.title}"? Its attachments and observations are deleted too. This cannot be undone.`)) return;
+    this.message.set(null);
+    await this.dataService.purgeDocument(doc.id);
+  }
+
+  async emptyTrash() {
+    const count = this.dataService.trash().length;
+    if (!confirm(`Permanently delete all ${count} document(s) in the trash? This cannot be undone.`)) return;
+    this.message.set(null);
+    const purged = await this.dataService.emptyTrash();
+    this.message.set(`Deleted ${purged} document(s) permanently.`);
+  }
+}
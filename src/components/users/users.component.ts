@@ -0,0 +1,101 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { AuthService } from '../../services/auth.service';
+import { DataService } from '../../services/data.service';
+import { LocalUser, LocalUserService } from '../../services/local-user.service';
+import { MIN_PASSWORD_LENGTH } from '../../services/password';
+import { Role, ROLES } from '../../services/permissions';
+
+@Component({
+  selector: 'app-users',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './users.component.html',
+  styles: []
+})
+export class UsersComponent {
+  authService = inject(AuthService);
+  dataService = inject(DataService);
+  localUsers = inject(LocalUserService);
+
+  readonly roles = ROLES;
+  readonly minPasswordLength = MIN_PASSWORD_LENGTH;
+
+  // Local accounts only exist for the browser backends
+  isLocal = computed(() => this.dataService.config().storageBackend !== 'pocketbase');
+
+  newEmail = '';
+  newName = '';
+  newRole: Role = 'editor';
+  newPassword = '';
+
+  resettingId = signal<string | null>(null);
+  resetValue = '';
+  isBusy = signal(false);
+  message = signal<string | null>(null);
+
+  async create() {
+    await this.run(async () => {
+      const user = await this.localUsers.create({
+        email: this.newEmail,
+        name: this.newName,
+        role: this.newRole,
+        password: this.newPassword
+      });
+      this.newEmail = '';
+      this.newName = '';
+      this.newRole = 'editor';
+      this.newPassword = '';
+      return `Added ${user.name}.`;
+    });
+  }
+
+  startReset(user: LocalUser) {
+    this.resettingId.set(user.id);
+    this.resetValue = '';
+  }
+
+  async confirmReset(user: LocalUser) {
+    await this.run(async () => {
+      await this.localUsers.resetPassword(user.id, this.resetValue);
+      this.resettingId.set(null);
+      this.resetValue = '';
+      return `Password for ${user.name} was reset.`;
+    });
+  }
+
+  async setRole(user: LocalUser, role: Role) {
+    await this.run(async () => {
+      this.localUsers.setRole(user.id, role);
+      return null;
+    });
+  }
+
+  async toggleDisabled(user: LocalUser) {
+    if (!user.disabled && !confirm(`Disable ${user.name}? They will not be able to sign in until re-enabled.`)) return;
+    await this.run(async () => {
+      this.localUsers.setDisabled(user.id, !user.disabled);
+      return null;
+    });
+  }
+
+  isSelf(user: LocalUser): boolean {
+    return user.id === this.authService.currentUser()?.id;
+  }
+
+  // Runs a change, showing its result message or alerting on failure
+  private async run(action: () => Promise<string | null>) {
+    this.isBusy.set(true);
+    this.message.set(null);
+    try {
+      this.message.set(await action());
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      alert('Failed to update users: ' + errorMessage);
+    } finally {
+      this.isBusy.set(false);
+    }
+  }
+}
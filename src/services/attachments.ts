@@ -0,0 +1,53 @@
+export interface Attachment {
+  id: string;     // IndexedDB key locally; the stored file name in PocketBase
+  name: string;
+  type: string;   // MIME type
+  size?: number;  // Bytes; PocketBase does not report sizes
+}
+
+export interface AttachmentUrlOptions {
+  thumb?: boolean;     // Small preview image, where the backend can generate one
+  download?: boolean;  // Ask the server to send the file as a download
+}
+
+// Scans of paperwork: PDFs and common image formats
+export const ACCEPTED_ATTACHMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Matches the default maximum size of a PocketBase file field
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+
+const EXTENSION_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp'
+};
+
+// Returns why a file cannot be attached, or null if it is acceptable
+export function validateAttachment(file: File): string | null {
+  if (!ACCEPTED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `"${file.name}" is not a PDF or image`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `"${file.name}" is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  return null;
+}
+
+// Best guess at a MIME type when only the file name is known
+export function typeFromName(name: string): string {
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_TYPES[extension] ?? 'application/octet-stream';
+}
+
+export function isImageAttachment(attachment: Attachment): boolean {
+  return attachment.type.startsWith('image/');
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,142 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { AuditAction, AuditActor, AuditEntry, diffValues } from './audit';
+import { ConfigService, StorageBackend } from './config.service';
+import { PocketBaseService } from './pocketbase.service';
+import { appendLocalAudit, readLocalAudit } from './storage/local-audit';
+import { generateId } from './storage/storage-utils';
+
+interface AuditStore {
+  list(): Promise<AuditEntry[]>;
+  create(entry: Omit<AuditEntry, 'id'>): Promise<void>;
+}
+
+/**
+ * Append-only record of changes to documents and the configuration. Written to the PocketBase
+ * audit collection or, for the local backends, localStorage. Recording never interrupts the
+ * change itself: entries the server rejects stay in this browser, and entries that cannot be
+ * kept at all are reported through `error`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuditService {
+  private configService = inject(ConfigService);
+  private pb = inject(PocketBaseService);
+
+  // The viewer lists this many of the newest server entries
+  private readonly LIST_LIMIT = 500;
+
+  // Signed-in user, set by AuthService; every entry is attributed to them
+  actor = signal<AuditActor | null>(null);
+  // Set when an entry could not be kept anywhere; shown until dismissed
+  error = signal<string | null>(null);
+
+  private localStore: AuditStore = {
+    list: async () => readLocalAudit(),
+    create: async entry => appendLocalAudit({ ...entry, id: generateId() })
+  };
+
+  private pocketBaseStore: AuditStore = {
+    list: async () => {
+      const f = this.fields;
+      const result = await this.pb.request<{ items: any[] }>(
+        `${this.pb.recordsUrl(f.collection)}?sort=-${f.timestamp}&perPage=${this.LIST_LIMIT}`
+      );
+      return result.items.map(item => this.fromRecord(item));
+    },
+    create: async entry => {
+      const f = this.fields;
+      await this.pb.request(this.pb.recordsUrl(f.collection), {
+        method: 'POST',
+        body: JSON.stringify({
+          [f.timestamp]: entry.timestamp,
+          [f.action]: entry.action,
+          [f.targetId]: entry.targetId,
+          [f.targetTitle]: entry.targetTitle,
+          [f.actorId]: entry.actorId,
+          [f.actorName]: entry.actorName,
+          [f.changes]: entry.changes
+        })
+      });
+    }
+  };
+
+  // Collection and field names from the schema mapping in Settings
+  private get fields() {
+    return this.pb.schema.audit;
+  }
+
+  private storeFor(backend: StorageBackend): AuditStore {
+    return backend === 'pocketbase' ? this.pocketBaseStore : this.localStore;
+  }
+
+  setActor(actor: AuditActor | null) {
+    this.actor.set(actor);
+  }
+
+  // Records a change from `before` to `after` (null when the document did not exist on that side).
+  // `backend` is where the entry goes; configuration changes are logged where the acting session lives.
+  async record(
+    action: AuditAction,
+    target: { id: string, title: string } | null,
+    before: object | null,
+    after: object | null,
+    backend: StorageBackend = this.configService.config().storageBackend
+  ) {
+    const changes = diffValues(before, after);
+    // Saving without changing anything is not worth an entry
+    if ((action === 'update' || action === 'config') && changes.length === 0) return;
+
+    const actor = this.actor();
+    const entry: Omit<AuditEntry, 'id'> = {
+      timestamp: new Date().toISOString(),
+      action,
+      targetId: target?.id ?? '',
+      targetTitle: target?.title ?? '',
+      actorId: actor?.id ?? '',
+      actorName: actor?.name ?? 'Unknown User',
+      changes
+    };
+    try {
+      await this.storeFor(backend).create(entry);
+    } catch (e: unknown) {
+      console.error('Failed to write audit entry', e);
+      try {
+        if (backend !== 'pocketbase') throw e;
+        await this.localStore.create(entry);
+      } catch (fallback: unknown) {
+        const errorMessage = fallback instanceof Error ? fallback.message : 'Unknown error';
+        this.error.set('Failed to record audit entry: ' + errorMessage);
+      }
+    }
+  }
+
+  dismissError() {
+    this.error.set(null);
+  }
+
+  // Newest first. With PocketBase, entries kept in this browser (from before the switch, or
+  // ones the server rejected) are listed alongside the server's.
+  async list(): Promise<AuditEntry[]> {
+    const entries = await this.localStore.list();
+    if (this.configService.config().storageBackend === 'pocketbase') {
+      entries.push(...await this.pocketBaseStore.list());
+    }
+    return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  // PocketBase date fields read back as 'YYYY-MM-DD HH:MM:SS.sssZ'; ISO form sorts with the local entries
+  private fromRecord(item: any): AuditEntry {
+    const f = this.fields;
+    return {
+      id: item.id,
+      timestamp: String(item[f.timestamp] || '').replace(' ', 'T'),
+      action: item[f.action],
+      targetId: item[f.targetId] || '',
+      targetTitle: item[f.targetTitle] || '',
+      actorId: item[f.actorId] || '',
+      actorName: item[f.actorName] || 'Unknown User',
+      changes: Array.isArray(item[f.changes]) ? item[f.changes] : []
+    };
+  }
+}
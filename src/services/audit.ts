@@ -0,0 +1,97 @@
+import { toCsv } from './csv';
+
+// Audit trail entries: who changed a document or the configuration, when, and what changed.
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'renew' | 'config';
+
+export const AUDIT_ACTIONS: { value: AuditAction, label: string }[] = [
+  { value: 'create', label: 'Created' },
+  { value: 'update', label: 'Updated' },
+  { value: 'renew', label: 'Renewed' },
+  { value: 'delete', label: 'Trashed' },
+  { value: 'restore', label: 'Restored' },
+  { value: 'purge', label: 'Purged' },
+  { value: 'config', label: 'Settings' }
+];
+
+// One changed field; values are absent (undefined) on the side where the field did not exist
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  action: AuditAction;
+  targetId: string;     // Document id; empty for configuration changes
+  targetTitle: string;
+  actorId: string;
+  actorName: string;
+  changes: AuditChange[];
+}
+
+// Bookkeeping fields that change with every save and say nothing about the edit
+const IGNORED_FIELDS = new Set(['id', 'created', 'updated']);
+// Credentials are never written to the log, only the fact that they changed
+const SECRET_FIELDS = new Set(['pbAuthToken']);
+const REDACTED = '(hidden)';
+
+// Field-by-field differences, with nested objects flattened to dotted paths (e.g. 'reminders.defaultLeadDays').
+// Pass null as `before` for a creation and as `after` for a deletion.
+export function diffValues(before: object | null, after: object | null): AuditChange[] {
+  const changes: AuditChange[] = [];
+  collectChanges(flatten(before), flatten(after), changes);
+  return changes;
+}
+
+function flatten(value: object | null, prefix = '', into = new Map<string, unknown>()): Map<string, unknown> {
+  for (const [key, field] of Object.entries(value ?? {})) {
+    if (!prefix && IGNORED_FIELDS.has(key)) continue;
+    if (field === undefined) continue;
+    const path = prefix + key;
+    if (field !== null && typeof field === 'object' && !Array.isArray(field)) {
+      flatten(field, path + '.', into);
+    } else {
+      into.set(path, field);
+    }
+  }
+  return into;
+}
+
+function collectChanges(before: Map<string, unknown>, after: Map<string, unknown>, changes: AuditChange[]) {
+  const fields = new Set([...before.keys(), ...after.keys()]);
+  for (const field of fields) {
+    const old = before.get(field);
+    const current = after.get(field);
+    if (JSON.stringify(old) === JSON.stringify(current)) continue;
+    if (SECRET_FIELDS.has(field)) {
+      changes.push({ field, before: old ? REDACTED : undefined, after: current ? REDACTED : undefined });
+    } else {
+      changes.push({ field, before: old, after: current });
+    }
+  }
+}
+
+// A value as shown in the log viewer and the CSV export
+export function formatAuditValue(value: unknown, empty = '—'): string {
+  if (value === undefined || value === null || value === '') return empty;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// One row per changed field, so the export can be filtered in a spreadsheet
+export function auditToCsv(entries: AuditEntry[]): string {
+  const header = ['Timestamp', 'Action', 'User', 'User ID', 'Document', 'Document ID', 'Field', 'Before', 'After'];
+  const rows = entries.flatMap(entry => {
+    const base = [entry.timestamp, entry.action, entry.actorName, entry.actorId, entry.targetTitle, entry.targetId];
+    if (entry.changes.length === 0) return [[...base, '', '', '']];
+    return entry.changes.map(c => [...base, c.field, formatAuditValue(c.before, ''), formatAuditValue(c.after, '')]);
+  });
+  return toCsv([header, ...rows]);
+}
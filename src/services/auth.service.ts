@@ -1,7 +1,38 @@
 
-import { Injectable, signal, inject } from '@angular/core';
+import { Injectable, computed, signal, inject } from '@angular/core';
 import { Router } from '@angular/router';
-import { DataService } from './data.service';
+import { AuditService } from './audit.service';
+import { AppConfig, DataService, PocketBaseSchema } from './data.service';
+import { fetchWithTimeout, readErrorMessage } from './http';
+import { tokenExpiry } from './jwt';
+import { LocalUser, LocalUserService } from './local-user.service';
+import { createPkcePair } from './pkce';
+import { normalizeRole, Permission, ROLE_PERMISSIONS } from './permissions';
+import { PocketBaseService } from './pocketbase.service';
+import { RealtimeService } from './realtime.service';
+
+// Why a session ended without the user signing out; shown on the login page
+export type SessionEndReason = 'expired' | 'idle';
+
+// An OAuth2 identity provider configured on the PocketBase server (from `auth-methods`)
+export interface AuthProvider {
+  name: string;                 // e.g. 'google'
+  displayName: string;
+  state: string;
+  authUrl: string;              // Ends with 'redirect_uri=', completed with the app's own URL
+  codeVerifier: string;         // Generated by the server; replaced by a local one when PKCE is supported
+  codeChallengeMethod: string;  // Empty when the provider does not support PKCE
+}
+
+// Kept in sessionStorage while the browser is away at the provider
+interface PendingOAuth2 {
+  provider: string;
+  state: string;
+  codeVerifier: string;
+  redirectUrl: string;
+  remember: boolean;
+  returnUrl: string;
+}
 
 interface UserData {
   username: string;
@@ -9,6 +40,7 @@ interface UserData {
   id: string;
   email?: string;
   name?: string;
+  team?: string;
 }
 
 @Injectable({
@@ -16,69 +48,80 @@ interface UserData {
 })
 export class AuthService {
   dataService = inject(DataService);
+  realtime = inject(RealtimeService);
   router = inject(Router);
+  private pb = inject(PocketBaseService);
+  private localUsers = inject(LocalUserService);
+  private audit = inject(AuditService);
+
+  // Refresh the PocketBase token this long before it expires (5 minutes)
+  private readonly REFRESH_MARGIN = 5 * 60 * 1000;
+  // Retry a refresh that failed because the server was unreachable after 1 minute
+  private readonly REFRESH_RETRY = 60 * 1000;
+  // How often to check for inactivity; activity is also persisted at most this often
+  private readonly IDLE_CHECK_INTERVAL = 30 * 1000;
+  private readonly OAUTH2_KEY = 'documinder_oauth2';
 
   isLoggedIn = signal<boolean>(false);
   currentUser = signal<UserData | null>(null);
-  isAdmin = signal<boolean>(false);
+  role = computed(() => normalizeRole(this.currentUser()?.role));
+  isAdmin = computed(() => this.role() === 'admin');
+  private permissions = computed(() => new Set<Permission>(this.isLoggedIn() ? ROLE_PERMISSIONS[this.role()] : []));
+  tokenExpiresAt = signal<number | null>(null);
 
-  // Timeout for fetch requests (10 seconds)
-  private readonly FETCH_TIMEOUT = 10000;
+  // "Remember me" keeps the session in localStorage instead of sessionStorage
+  private remember = false;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastActivity = Date.now();
+  private lastActivitySaved = 0;
 
   constructor() {
     // Check session storage to persist login across reloads
     this.restoreSession();
-  }
 
-  // Helper to add timeout to fetch requests
-  private async fetchWithTimeout(url: string, options: RequestInit = {}): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.FETCH_TIMEOUT);
-
-    try {
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal
-      });
-      clearTimeout(timeoutId);
-      return response;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Request timeout: Server did not respond in time');
-      }
-      throw error;
-    }
+    // Any request rejected with 401 means the token is no longer valid
+    this.pb.unauthorized.subscribe(() => this.endSession('expired'));
+    this.trackActivity();
   }
 
   private restoreSession() {
+    this.remember = this.isRemembered();
     const savedUserStr = this.getSessionItem('documinder_user');
     const savedToken = this.getSessionItem('documinder_token');
 
     if (savedUserStr) {
       try {
-        const user: UserData = JSON.parse(savedUserStr);
+        const user = this.currentAccount(JSON.parse(savedUserStr));
+        // Sessions left idle past the timeout, or whose token already expired, are not resumed
+        const expiresAt = savedToken ? tokenExpiry(savedToken) : null;
+        if (this.idleTooLong(this.storedActivity()) || (expiresAt !== null && expiresAt <= Date.now()) || !user) {
+          this.clearSession();
+          return;
+        }
         this.setInternalState(user, savedToken || '');
+        this.setSessionItem('documinder_user', JSON.stringify(user));
       } catch (e) {
         this.logout();
       }
     }
   }
 
-  async login(email: string, pass: string): Promise<boolean> {
+  async login(email: string, pass: string, remember = false): Promise<boolean> {
     const config = this.dataService.config();
+    this.remember = remember;
 
-    if (config.usePocketBase) {
-      return await this.loginPocketBase(email, pass, config.pbUrl);
+    if (config.storageBackend === 'pocketbase') {
+      return await this.loginPocketBase(email, pass, config);
     } else {
       return this.loginLocal(email, pass);
     }
   }
 
-  private async loginPocketBase(identity: string, pass: string, url: string): Promise<boolean> {
+  private async loginPocketBase(identity: string, pass: string, config: AppConfig): Promise<boolean> {
+    const { collection } = config.pbSchema.users;
     try {
       // In PocketBase, the 'identity' field for auth-with-password can be the email
-      const response = await this.fetchWithTimeout(`${url}/api/collections/users/auth-with-password`, {
+      const response = await fetchWithTimeout(`${config.pbUrl}/api/collections/${collection}/auth-with-password`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ identity, password: pass })
@@ -94,18 +137,7 @@ export class AuthService {
         return false;
       }
 
-      const record = data.record;
-
-      const userData: UserData = {
-        id: record.id,
-        // Fallback: If username field is empty/missing, use name or email
-        username: record.username || record.name || record.email || 'Unknown User',
-        email: record.email || '',
-        name: record.name || '',
-        role: record.Role || record.role || 'user' // Try both 'Role' and 'role' fields
-      };
-
-      this.saveSession(userData, data.token || '');
+      this.saveSession(this.toUserData(data.record, config.pbSchema.users), data.token || '');
       return true;
     } catch (e) {
       console.error('Login error', e);
@@ -113,59 +145,288 @@ export class AuthService {
     }
   }
 
-  private loginLocal(email: string, pass: string): boolean {
-    // Local fallback for offline/demo mode
-    if (email === 'docuser@docuser.com' && pass === 'docuser') {
-      const userData: UserData = {
-        id: 'local-admin',
-        username: 'Local Admin',
-        email: email,
-        role: 'admin'
-      };
-      this.saveSession(userData, '');
-      return true;
+  // Accounts kept in this browser for the local backends (see LocalUserService)
+  private async loginLocal(email: string, pass: string): Promise<boolean> {
+    const user = await this.localUsers.authenticate(email, pass);
+    if (!user) return false;
+    this.saveSession(this.fromLocalUser(user), '');
+    return true;
+  }
+
+  // A saved local session resumes with the account as it is now, so role and name changes made
+  // since apply. Null when the account was disabled or removed in the meantime.
+  private currentAccount(saved: UserData): UserData | null {
+    if (this.dataService.config().storageBackend === 'pocketbase') return saved;
+    const account = this.localUsers.get(saved.id);
+    return account && !account.disabled ? this.fromLocalUser(account) : null;
+  }
+
+  // --- OAuth2 ---
+
+  async authProviders(): Promise<AuthProvider[]> {
+    const config = this.dataService.config();
+    if (config.storageBackend !== 'pocketbase') return [];
+
+    const response = await fetchWithTimeout(`${config.pbUrl}/api/collections/${config.pbSchema.users.collection}/auth-methods`);
+    if (!response.ok) throw new Error(await readErrorMessage(response));
+    const data = await response.json();
+    // v0.23+ nests the providers under `oauth2`; older servers list them as `authProviders`
+    if (data.oauth2 && !data.oauth2.enabled) return [];
+    const providers: any[] = data.oauth2?.providers ?? data.authProviders ?? [];
+    return providers.map(p => ({
+      name: p.name,
+      displayName: p.displayName || p.name,
+      state: p.state,
+      authUrl: p.authURL ?? p.authUrl,
+      codeVerifier: p.codeVerifier || '',
+      codeChallengeMethod: p.codeChallengeMethod || ''
+    }));
+  }
+
+  // Sends the browser to the provider; it comes back to this page with `code` and `state` in the query string
+  async startOAuth2(provider: AuthProvider, remember: boolean, returnUrl: string) {
+    // Providers rarely accept a fragment in the redirect URI, so the hash route is left out
+    const redirectUrl = window.location.origin + window.location.pathname;
+    const url = new URL(provider.authUrl + encodeURIComponent(redirectUrl));
+
+    let codeVerifier = provider.codeVerifier;
+    if (provider.codeChallengeMethod) {
+      const pkce = await createPkcePair();
+      url.searchParams.set('code_challenge', pkce.challenge);
+      url.searchParams.set('code_challenge_method', 'S256');
+      codeVerifier = pkce.verifier;
     }
-    return false;
+
+    const pending: PendingOAuth2 = { provider: provider.name, state: provider.state, codeVerifier, redirectUrl, remember, returnUrl };
+    sessionStorage.setItem(this.OAUTH2_KEY, JSON.stringify(pending));
+    window.location.assign(url.toString());
+  }
+
+  hasPendingOAuth2(): boolean {
+    try {
+      return sessionStorage.getItem(this.OAUTH2_KEY) !== null;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  // Exchanges the code from the provider for a PocketBase session. Returns where to go next.
+  async completeOAuth2(code: string, state: string): Promise<string> {
+    const saved = sessionStorage.getItem(this.OAUTH2_KEY);
+    sessionStorage.removeItem(this.OAUTH2_KEY);
+    if (!saved) throw new Error('No sign-in was started from this tab');
+    const pending: PendingOAuth2 = JSON.parse(saved);
+    // A mismatched state means the response was not meant for this sign-in
+    if (state !== pending.state) throw new Error('The sign-in response did not match the request');
+
+    const config = this.dataService.config();
+    const response = await fetchWithTimeout(`${config.pbUrl}/api/collections/${config.pbSchema.users.collection}/auth-with-oauth2`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        provider: pending.provider,
+        code,
+        codeVerifier: pending.codeVerifier,
+        // v0.23+ reads `redirectURL`, older servers `redirectUrl`
+        redirectURL: pending.redirectUrl,
+        redirectUrl: pending.redirectUrl
+      })
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response));
+
+    const data = await response.json();
+    if (!data?.record?.id) throw new Error('Invalid PocketBase auth response');
+
+    this.remember = pending.remember;
+    this.saveSession(this.toUserData(data.record, config.pbSchema.users, data.meta), data.token || '');
+    return pending.returnUrl;
   }
 
-  logout() {
+  can(permission: Permission): boolean {
+    return this.permissions().has(permission);
+  }
+
+  // `reason` and `returnUrl` are passed to the login page when the session ended on its own
+  logout(options: { reason?: SessionEndReason, returnUrl?: string } = {}) {
     this.isLoggedIn.set(false);
     this.currentUser.set(null);
-    this.isAdmin.set(false);
+    this.dataService.setViewer(null);
+    this.audit.setActor(null);
+    this.realtime.disconnect();
     this.dataService.setRuntimeToken(''); // Clear token in data service
-    
-    this.removeSessionItem('documinder_user');
-    this.removeSessionItem('documinder_token');
-    
-    this.router.navigate(['/login']);
+    this.clearSession();
+
+    const queryParams: Record<string, string> = {};
+    if (options.reason) queryParams['reason'] = options.reason;
+    if (options.returnUrl) queryParams['returnUrl'] = options.returnUrl;
+    this.router.navigate(['/login'], { queryParams });
+  }
+
+  // Signs out after token expiry or inactivity, returning to the current page after the next login
+  endSession(reason: SessionEndReason) {
+    if (!this.isLoggedIn()) return;
+    const returnUrl = this.router.url.startsWith('/login') ? undefined : this.router.url;
+    this.logout({ reason, returnUrl });
+  }
+
+  // Exchanges the PocketBase token for a fresh one. Returns false if the session could not be kept.
+  async refreshToken(): Promise<boolean> {
+    const token = this.getSessionItem('documinder_token');
+    if (!token) return false;
+
+    const config = this.dataService.config();
+    const { collection } = config.pbSchema.users;
+    try {
+      const response = await fetchWithTimeout(`${config.pbUrl}/api/collections/${collection}/auth-refresh`, {
+        method: 'POST',
+        headers: { Authorization: token }
+      });
+      if (response.status === 401 || response.status === 403 || response.status === 404) {
+        this.endSession('expired');
+        return false;
+      }
+      if (!response.ok) throw new Error(`Server responded with ${response.status}`);
+
+      const data = await response.json();
+      const user = this.toUserData(data.record, config.pbSchema.users);
+      this.currentUser.set(user);
+      this.dataService.viewer.set({ id: user.id, team: user.team ?? '' });
+      // Swap the token in place; the loaded documents stay valid
+      this.pb.setAuthToken(data.token);
+      this.setSessionItem('documinder_user', JSON.stringify(user));
+      this.setSessionItem('documinder_token', data.token);
+      this.scheduleRefresh(data.token);
+      return true;
+    } catch (e) {
+      console.error('Token refresh failed', e);
+      const expiresAt = this.tokenExpiresAt();
+      if (expiresAt !== null && expiresAt <= Date.now()) {
+        this.endSession('expired');
+        return false;
+      }
+      this.refreshTimer = setTimeout(() => this.refreshToken(), this.REFRESH_RETRY);
+      return false;
+    }
   }
 
   // --- State & Storage Helpers ---
 
+  private fromLocalUser(user: LocalUser): UserData {
+    return { id: user.id, username: user.name, email: user.email, name: user.name, role: user.role };
+  }
+
+  // `meta` is the provider's profile after an OAuth2 sign-in; a newly created account may not have a name yet
+  private toUserData(record: any, fields: PocketBaseSchema['users'], meta?: any): UserData {
+    return {
+      id: record.id,
+      // Fallback: If username field is empty/missing, use name or email
+      username: record.username || record.name || meta?.name || meta?.username || record.email || 'Unknown User',
+      email: record.email || meta?.email || '',
+      name: record.name || meta?.name || '',
+      // Try the configured field as written and in lower case (e.g. 'Role' and 'role')
+      role: record[fields.role] || record[fields.role.toLowerCase()] || '',
+      team: record[fields.team] || ''
+    };
+  }
+
   private saveSession(user: UserData, token: string) {
+    // Drop whatever an earlier session left in the other storage
+    this.clearSession();
     this.setInternalState(user, token);
     
     this.setSessionItem('documinder_user', JSON.stringify(user));
     if (token) {
       this.setSessionItem('documinder_token', token);
     }
-    
-    this.router.navigate(['/dashboard']);
   }
 
   private setInternalState(user: UserData, token: string) {
     this.isLoggedIn.set(true);
     this.currentUser.set(user);
-    this.isAdmin.set(user.role.toLowerCase() === 'admin');
+    this.dataService.setViewer({ id: user.id, team: user.team ?? '' });
+    this.audit.setActor({ id: user.id, name: user.username });
+    this.markActivity(true);
     
     if (token) {
       this.dataService.setRuntimeToken(token);
     }
+    this.scheduleRefresh(token);
+
+    // Live updates from colleagues are only available with a PocketBase backend
+    if (this.dataService.config().storageBackend === 'pocketbase') {
+      this.realtime.connect();
+    }
+  }
+
+  private scheduleRefresh(token: string) {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    const expiresAt = token ? tokenExpiry(token) : null;
+    this.tokenExpiresAt.set(expiresAt);
+    if (expiresAt === null) return;
+
+    // setTimeout cannot wait longer than ~24 days; a longer-lived token is just refreshed early
+    const delay = Math.min(Math.max(0, expiresAt - this.REFRESH_MARGIN - Date.now()), 2 ** 31 - 1);
+    this.refreshTimer = setTimeout(() => this.refreshToken(), delay);
+  }
+
+  private clearSession() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.tokenExpiresAt.set(null);
+    this.removeSessionItem('documinder_user');
+    this.removeSessionItem('documinder_token');
+    this.removeSessionItem('documinder_last_activity');
+  }
+
+  // --- Idle Timeout ---
+
+  private trackActivity() {
+    for (const type of ['pointerdown', 'keydown', 'wheel', 'touchstart']) {
+      window.addEventListener(type, () => this.markActivity(), { passive: true });
+    }
+    setInterval(() => {
+      if (this.isLoggedIn() && this.idleTooLong(Math.max(this.lastActivity, this.storedActivity()))) {
+        this.endSession('idle');
+      }
+    }, this.IDLE_CHECK_INTERVAL);
+  }
+
+  private markActivity(force = false) {
+    this.lastActivity = Date.now();
+    // Persisted so a reload (or another remembered tab) can tell how long the session sat idle
+    if (this.isLoggedIn() && (force || this.lastActivity - this.lastActivitySaved > this.IDLE_CHECK_INTERVAL)) {
+      this.lastActivitySaved = this.lastActivity;
+      this.setSessionItem('documinder_last_activity', String(this.lastActivity));
+    }
+  }
+
+  private storedActivity(): number {
+    return Number(this.getSessionItem('documinder_last_activity')) || 0;
+  }
+
+  private idleTooLong(since: number): boolean {
+    const minutes = this.dataService.config().session.idleTimeoutMinutes;
+    return minutes > 0 && since > 0 && Date.now() - since > minutes * 60 * 1000;
+  }
+
+  // Remembered sessions live in localStorage, all others in sessionStorage
+
+  private isRemembered(): boolean {
+    try {
+      return localStorage.getItem('documinder_user') !== null;
+    } catch (e) {
+      return false;
+    }
   }
 
   private getSessionItem(key: string): string | null {
     try {
-      return sessionStorage.getItem(key);
+      return sessionStorage.getItem(key) ?? localStorage.getItem(key);
     } catch (e) {
       return null;
     }
@@ -173,7 +434,7 @@ export class AuthService {
 
   private setSessionItem(key: string, value: string): void {
     try {
-      sessionStorage.setItem(key, value);
+      (this.remember ? localStorage : sessionStorage).setItem(key, value);
     } catch (e) {
       console.warn(`Failed to save session item: ${key}`, e);
     }
@@ -182,6 +443,7 @@ export class AuthService {
   private removeSessionItem(key: string): void {
     try {
       sessionStorage.removeItem(key);
+      localStorage.removeItem(key);
     } catch (e) {
       console.warn(`Failed to remove session item: ${key}`, e);
     }
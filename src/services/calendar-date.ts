@@ -0,0 +1,70 @@
+import type { DocItem } from './data.service';
+
+// Expiration dates are calendar days ('yyyy-MM-dd'), not instants. Day counts compare the day
+// numbers directly, so a document expires on the same day for every user in every timezone.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The calendar day a stored value names. Older values were saved as timestamps of UTC midnight
+// ('2025-03-01T00:00:00.000Z', or '2025-03-01 00:00:00.000Z' from PocketBase), which lead with it.
+export function toCalendarDate(value: string): string {
+  const day = /^(\d{4}-\d{2}-\d{2})/.exec(value);
+  return day ? day[1] : formatCalendarDate(new Date(value));
+}
+
+// The calendar day of a Date in the user's timezone
+export function formatCalendarDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Whether a 'yyyy-MM-dd' string names a day that exists; Date.parse rolls '2025-02-30' over to March
+export function isCalendarDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return false;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === value;
+}
+
+export function today(): string {
+  return formatCalendarDate(new Date());
+}
+
+// Day numbers since the epoch; arithmetic on these is free of timezone and DST effects
+function dayNumber(date: string): number {
+  const [year, month, day] = toCalendarDate(date).split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function fromDayNumber(days: number): string {
+  return new Date(days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Negative once the day has passed, 0 on the day itself
+export function daysUntil(date: string, from = today()): number {
+  return dayNumber(date) - dayNumber(from);
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDayNumber(dayNumber(date) + days);
+}
+
+// Month arithmetic clamps to the last day of the month, so Jan 31 + 1 month is Feb 28/29
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = toCalendarDate(date).split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
+
+// Brings the dates of a stored document into calendar-day form
+export function withCalendarDates(doc: DocItem): DocItem {
+  return {
+    ...doc,
+    expirationDate: toCalendarDate(doc.expirationDate),
+    renewalHistory: doc.renewalHistory?.map(record => ({
+      ...record,
+      periodStart: toCalendarDate(record.periodStart),
+      periodEnd: toCalendarDate(record.periodEnd)
+    }))
+  };
+}
@@ -0,0 +1,256 @@
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+import { AuthService } from './auth.service';
+import { BatchResult, DataService } from './data.service';
+import { PocketBaseService } from './pocketbase.service';
+import { generateId, getSafeItem, setSafeItem } from './storage/storage-utils';
+
+export interface Category {
+  id: string;
+  name: string;
+  color: string;      // Hex color used for badges
+  icon: string;       // Font Awesome icon name, e.g. 'fa-car'
+  archived: boolean;  // Hidden from pickers but kept for existing documents
+}
+
+export type CategoryChanges = Partial<Pick<Category, 'color' | 'icon' | 'archived'>>;
+
+// Seeded the first time a store is empty; these were the original hardcoded options
+export const DEFAULT_CATEGORIES: Omit<Category, 'id'>[] = [
+  { name: 'General', color: '#9ca3af', icon: 'fa-folder', archived: false },
+  { name: 'Legal', color: '#a78bfa', icon: 'fa-scale-balanced', archived: false },
+  { name: 'Personal', color: '#60a5fa', icon: 'fa-user', archived: false },
+  { name: 'Work', color: '#34d399', icon: 'fa-briefcase', archived: false },
+  { name: 'Vehicle', color: '#fbbf24', icon: 'fa-car', archived: false },
+  { name: 'Finance', color: '#f87171', icon: 'fa-coins', archived: false }
+];
+
+export const CATEGORY_ICONS = [
+  'fa-folder', 'fa-scale-balanced', 'fa-user', 'fa-briefcase', 'fa-car', 'fa-coins', 'fa-house',
+  'fa-heart-pulse', 'fa-plane', 'fa-graduation-cap', 'fa-shield-halved', 'fa-file-contract', 'fa-id-card'
+];
+
+interface CategoryStore {
+  load(): Promise<Category[]>;
+  create(category: Omit<Category, 'id'>): Promise<Category>;
+  update(id: string, changes: Partial<Omit<Category, 'id'>>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * User-managed document categories. Stored in the PocketBase `Categories` collection when that
+ * backend is active, otherwise in localStorage. Documents reference categories by name, so
+ * renames and merges rewrite the affected documents.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CategoryService {
+  private dataService = inject(DataService);
+  private authService = inject(AuthService);
+  private pb = inject(PocketBaseService);
+
+  private readonly STORAGE_KEY = 'documinder_categories';
+
+  categories = signal<Category[]>([]);
+  activeCategories = computed(() => this.categories().filter(c => !c.archived));
+  activeNames = computed(() => this.activeCategories().map(c => c.name));
+  error = signal<string | null>(null);
+
+  private localStore: CategoryStore = {
+    load: async () => this.readLocal(),
+    create: async category => {
+      const created = { ...category, id: generateId() };
+      this.writeLocal([...this.readLocal(), created]);
+      return created;
+    },
+    update: async (id, changes) => {
+      this.writeLocal(this.readLocal().map(c => c.id === id ? { ...c, ...changes } : c));
+    },
+    delete: async id => {
+      this.writeLocal(this.readLocal().filter(c => c.id !== id));
+    }
+  };
+
+  private pocketBaseStore: CategoryStore = {
+    load: async () => {
+      const result = await this.pb.request<{ items: any[] }>(`${this.pb.recordsUrl(this.pb.schema.categories.collection)}?sort=name&perPage=500`);
+      return result.items.map(item => ({
+        id: item.id,
+        name: item.name,
+        color: item.color || '#9ca3af',
+        icon: item.icon || 'fa-folder',
+        archived: !!item.archived
+      }));
+    },
+    create: async category => {
+      const record = await this.pb.request<any>(this.pb.recordsUrl(this.pb.schema.categories.collection), {
+        method: 'POST',
+        body: JSON.stringify(category)
+      });
+      return { ...category, id: record.id };
+    },
+    update: async (id, changes) => {
+      await this.pb.request(this.pb.recordsUrl(this.pb.schema.categories.collection, id), {
+        method: 'PATCH',
+        body: JSON.stringify(changes)
+      });
+    },
+    delete: async id => {
+      await this.pb.request(this.pb.recordsUrl(this.pb.schema.categories.collection, id), { method: 'DELETE' });
+    }
+  };
+
+  constructor() {
+    // Reload whenever the backend changes or the user signs in or out (not on every token refresh)
+    const hasToken = computed(() => !!this.pb.getAuthToken());
+    effect(() => {
+      this.dataService.config().storageBackend;
+      hasToken();
+      untracked(() => this.load());
+    });
+  }
+
+  private get store(): CategoryStore {
+    return this.dataService.config().storageBackend === 'pocketbase' ? this.pocketBaseStore : this.localStore;
+  }
+
+  async load() {
+    this.error.set(null);
+    try {
+      if (this.dataService.config().storageBackend === 'pocketbase' && !this.pb.getAuthToken()) return;
+
+      let categories = await this.store.load();
+      if (!categories.length) {
+        categories = await this.seedDefaults();
+      }
+      this.categories.set(this.sorted(categories));
+    } catch (e: unknown) {
+      console.error('Failed to load categories', e);
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.error.set('Failed to load categories: ' + errorMessage);
+      // Keep the app usable with the built-in list
+      if (!this.categories().length) {
+        this.categories.set(DEFAULT_CATEGORIES.map(c => ({ ...c, id: c.name })));
+      }
+    }
+  }
+
+  // Looks up the category a document refers to; unknown names get a neutral badge
+  byName(name: string): Category {
+    return this.categories().find(c => c.name === name)
+      ?? { id: name, name, color: '#9ca3af', icon: 'fa-tag', archived: false };
+  }
+
+  // Active names plus `current`, so editing a document in an archived category keeps its value
+  optionsFor(current?: string | null): string[] {
+    const names = this.activeNames();
+    return current && !names.includes(current) ? [...names, current] : names;
+  }
+
+  async create(name: string, color: string, icon: string) {
+    const trimmed = name.trim();
+    this.assertUnique(trimmed);
+    const created = await this.store.create({ name: trimmed, color, icon, archived: false });
+    this.categories.update(list => this.sorted([...list, created]));
+  }
+
+  async update(id: string, changes: CategoryChanges) {
+    await this.store.update(id, changes);
+    this.categories.update(list => list.map(c => c.id === id ? { ...c, ...changes } : c));
+  }
+
+  // Renames the category and moves every document (and reminder and status override) to the new name.
+  // Returns the outcome per document; failed ones keep the old name and can be edited individually.
+  async rename(id: string, newName: string): Promise<BatchResult[]> {
+    const category = this.categories().find(c => c.id === id);
+    const trimmed = newName.trim();
+    if (!category || category.name === trimmed) return [];
+    this.assertUnique(trimmed, id);
+    this.assertCanMoveOverrides(category.name);
+
+    await this.store.update(id, { name: trimmed });
+    this.categories.update(list => this.sorted(list.map(c => c.id === id ? { ...c, name: trimmed } : c)));
+    this.moveOverrides(category.name, trimmed);
+    return this.dataService.recategorizeDocuments(category.name, trimmed);
+  }
+
+  // Moves every document from `sourceId` into `targetId`, then removes the source category.
+  // The source is kept while any of its documents could not be moved, so none are left without one.
+  async merge(sourceId: string, targetId: string): Promise<BatchResult[]> {
+    const source = this.categories().find(c => c.id === sourceId);
+    const target = this.categories().find(c => c.id === targetId);
+    if (!source || !target || source.id === target.id) return [];
+    this.assertCanMoveOverrides(source.name);
+
+    const results = await this.dataService.recategorizeDocuments(source.name, target.name);
+    if (results.some(r => r.error)) return results;
+    await this.store.delete(source.id);
+    this.categories.update(list => list.filter(c => c.id !== source.id));
+    this.moveOverrides(source.name, target.name, false);
+    return results;
+  }
+
+  private assertUnique(name: string, exceptId?: string) {
+    if (!name) throw new Error('Category name is required');
+    if (this.categories().some(c => c.id !== exceptId && c.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`A category named "${name}" already exists`);
+    }
+  }
+
+  // Moving a category's overrides rewrites the settings, which needs more than category:manage
+  private assertCanMoveOverrides(name: string) {
+    const { reminders, status } = this.dataService.config();
+    const hasOverrides = !!reminders.categoryLeadDays[name] || !!status.categoryDays[name];
+    if (hasOverrides && !this.authService.can('settings:write')) {
+      throw new Error(`"${name}" has its own reminder or status settings in Settings; ask an admin to rename or merge it`);
+    }
+  }
+
+  // Keeps per-category reminder lead times and status thresholds attached to the category after a
+  // rename or merge. On a merge (`overwrite` false) the target's own settings win.
+  private moveOverrides(from: string, to: string, overwrite = true) {
+    const config = this.dataService.config();
+    const categoryLeadDays = moveKey(config.reminders.categoryLeadDays, from, to, overwrite);
+    const categoryDays = moveKey(config.status.categoryDays, from, to, overwrite);
+    if (categoryLeadDays === config.reminders.categoryLeadDays && categoryDays === config.status.categoryDays) return;
+    this.dataService.saveConfig({
+      ...config,
+      reminders: { ...config.reminders, categoryLeadDays },
+      status: { ...config.status, categoryDays }
+    });
+  }
+
+  private async seedDefaults(): Promise<Category[]> {
+    const created: Category[] = [];
+    for (const category of DEFAULT_CATEGORIES) {
+      created.push(await this.store.create(category));
+    }
+    return created;
+  }
+
+  private sorted(list: Category[]): Category[] {
+    return [...list].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private readLocal(): Category[] {
+    const data = getSafeItem(this.STORAGE_KEY);
+    if (!data) return [];
+    try {
+      return JSON.parse(data);
+    } catch (e) {
+      console.error('Failed to parse categories from localStorage', e);
+      return [];
+    }
+  }
+
+  private writeLocal(categories: Category[]) {
+    setSafeItem(this.STORAGE_KEY, JSON.stringify(categories));
+  }
+}
+
+// `overrides` with the entry under `from` moved to `to`; the same object when there is nothing to move
+function moveKey<T>(overrides: Record<string, T>, from: string, to: string, overwrite: boolean): Record<string, T> {
+  const { [from]: override, ...rest } = overrides;
+  if (!override) return overrides;
+  return overwrite || !rest[to] ? { ...rest, [to]: override } : rest;
+}
@@ -0,0 +1,222 @@
+import { Injectable, signal } from '@angular/core';
+import { getSafeItem, setSafeItem } from './storage/storage-utils';
+
+export type StorageBackend = 'localStorage' | 'indexedDb' | 'pocketbase';
+
+export interface ReminderConfig {
+  defaultLeadDays: number[];                    // Days before expiry, e.g. [30, 7, 1]
+  categoryLeadDays: Record<string, number[]>;   // Overrides the default for a category
+  browserNotifications: boolean;
+}
+
+export interface SessionConfig {
+  idleTimeoutMinutes: number;  // Sign out after this long without activity; 0 disables
+}
+
+export interface TrashConfig {
+  retentionDays: number;  // Deleted documents are purged after this long; 0 keeps them until the trash is emptied
+}
+
+export type StatusTone = 'red' | 'orange' | 'amber' | 'yellow' | 'sky' | 'violet' | 'emerald';
+
+// A warning status between Expired and Active, applying while at most `days` days are left
+export interface StatusTier {
+  id: string;      // Stable key for the status filter and category overrides
+  label: string;
+  days: number;
+  tone: StatusTone;
+}
+
+export interface StatusConfig {
+  tiers: StatusTier[];                                   // The tier with the fewest days that still applies wins
+  categoryDays: Record<string, Record<string, number>>;  // Per category, tier id -> days, e.g. { Passport: { soon: 180 } }
+}
+
+// Collection and field names used in the PocketBase instance; each key is the app-side name
+export interface PocketBaseSchema {
+  notes: {
+    collection: string;
+    title: string;
+    details: string;
+    category: string;
+    expirationDate: string;
+    renewalInterval: string;
+    renewalHistory: string;
+    reminderLeadDays: string;
+    remindersSent: string;
+    notified: string;
+    attachments: string;
+    owner: string;
+    readers: string;
+    editors: string;
+    team: string;
+    teamAccess: string;
+    deletedAt: string;
+  };
+  observations: {
+    collection: string;
+    noteId: string;
+    text: string;
+    author: string;
+    authorId: string;
+  };
+  categories: {
+    collection: string;
+  };
+  users: {
+    collection: string;
+    role: string;
+    team: string;
+  };
+  audit: {
+    collection: string;
+    timestamp: string;
+    action: string;
+    targetId: string;
+    targetTitle: string;
+    actorId: string;
+    actorName: string;
+    changes: string;
+  };
+}
+
+export interface AppConfig {
+  storageBackend: StorageBackend;
+  pbUrl: string;
+  pbAuthToken: string; // Legacy/Fallback static token
+  pbSchema: PocketBaseSchema;
+  reminders: ReminderConfig;
+  session: SessionConfig;
+  trash: TrashConfig;
+  status: StatusConfig;
+}
+
+export const DEFAULT_PB_SCHEMA: PocketBaseSchema = {
+  notes: {
+    collection: 'Notes',
+    title: 'Note',
+    details: 'NoteObservation',
+    category: 'Category',
+    expirationDate: 'expiration_date',
+    renewalInterval: 'renewal_interval',
+    renewalHistory: 'renewal_history',
+    reminderLeadDays: 'reminder_lead_days',
+    remindersSent: 'reminders_sent',
+    notified: 'notified',
+    attachments: 'attachments',
+    owner: 'owner',
+    readers: 'readers',
+    editors: 'editors',
+    team: 'team',
+    teamAccess: 'team_access',
+    deletedAt: 'deleted_at'
+  },
+  observations: {
+    collection: 'Observations',
+    noteId: 'note_id',
+    text: 'details',
+    author: 'author',
+    authorId: 'author_id'
+  },
+  categories: {
+    collection: 'Categories'
+  },
+  users: {
+    collection: 'users',
+    role: 'Role',
+    team: 'team'
+  },
+  audit: {
+    collection: 'AuditLog',
+    timestamp: 'timestamp',
+    action: 'action',
+    targetId: 'target_id',
+    targetTitle: 'target_title',
+    actorId: 'actor_id',
+    actorName: 'actor',
+    changes: 'changes'
+  }
+};
+
+export const DEFAULT_CONFIG: AppConfig = {
+  storageBackend: 'localStorage',
+  pbUrl: 'http://127.0.0.1:8090',
+  pbAuthToken: '',
+  pbSchema: DEFAULT_PB_SCHEMA,
+  reminders: {
+    defaultLeadDays: [30, 7, 1],
+    categoryLeadDays: {},
+    browserNotifications: false
+  },
+  session: {
+    idleTimeoutMinutes: 0
+  },
+  trash: {
+    retentionDays: 30
+  },
+  status: {
+    tiers: [
+      { id: 'critical', label: 'Critical', days: 7, tone: 'orange' },
+      { id: 'soon', label: 'Renew Soon', days: 30, tone: 'amber' }
+    ],
+    categoryDays: {}
+  }
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ConfigService {
+  private readonly STORAGE_KEY = 'documinder_config';
+
+  config = signal<AppConfig>({ ...DEFAULT_CONFIG });
+
+  constructor() {
+    this.loadConfig();
+  }
+
+  private loadConfig() {
+    const savedConfig = this.getSavedConfig();
+    if (savedConfig) {
+      this.config.set(this.normalize(savedConfig));
+    }
+  }
+
+  private getSavedConfig(): Record<string, unknown> | null {
+    const saved = getSafeItem(this.STORAGE_KEY);
+    if (!saved) return null;
+    try {
+      return JSON.parse(saved);
+    } catch (e) {
+      console.error('Config parse error', e);
+      return null;
+    }
+  }
+
+  saveConfig(newConfig: AppConfig) {
+    this.config.set(newConfig);
+    setSafeItem(this.STORAGE_KEY, JSON.stringify(newConfig));
+  }
+
+  // Fills in defaults (including schema names added later) and migrates configs saved before storage backends were selectable by name
+  private normalize(saved: Record<string, unknown>): AppConfig {
+    const { usePocketBase, ...rest } = saved;
+    const config = { ...DEFAULT_CONFIG, ...rest } as AppConfig;
+    config.reminders = { ...DEFAULT_CONFIG.reminders, ...config.reminders };
+    config.session = { ...DEFAULT_CONFIG.session, ...config.session };
+    config.trash = { ...DEFAULT_CONFIG.trash, ...config.trash };
+    config.status = { ...DEFAULT_CONFIG.status, ...config.status };
+    const schema = config.pbSchema as Partial<PocketBaseSchema> | undefined;
+    config.pbSchema = {
+      notes: { ...DEFAULT_PB_SCHEMA.notes, ...schema?.notes },
+      observations: { ...DEFAULT_PB_SCHEMA.observations, ...schema?.observations },
+      categories: { ...DEFAULT_PB_SCHEMA.categories, ...schema?.categories },
+      users: { ...DEFAULT_PB_SCHEMA.users, ...schema?.users },
+      audit: { ...DEFAULT_PB_SCHEMA.audit, ...schema?.audit }
+    };
+    if (!saved['storageBackend'] && typeof usePocketBase === 'boolean') {
+      config.storageBackend = usePocketBase ? 'pocketbase' : 'localStorage';
+    }
+    return config;
+  }
+}
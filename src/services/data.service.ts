@@ -1,146 +1,191 @@
-
-import { Injectable, signal } from '@angular/core';
+import { Injectable, inject, signal } from '@angular/core';
+import { Attachment, AttachmentUrlOptions, validateAttachment } from './attachments';
+import type { AuditAction } from './audit';
+import { AuditService } from './audit.service';
+import { AppConfig, ConfigService } from './config.service';
+import { fetchWithTimeout, NetworkError } from './http';
+import { PocketBaseService } from './pocketbase.service';
+import { addInterval, renew, RenewalInterval, RenewalRecord } from './renewal';
+import type { ShareAccess, Viewer } from './sharing';
+import { SyncService } from './sync.service';
+import { DOCUMENT_REPOSITORIES, DocumentRepository, DocItemPatch, NewDocItem } from './storage/document-repository';
+import { DocumentQuery, isEmptyQuery, matchesQuery } from './storage/document-query';
+
+export type { AppConfig, PocketBaseSchema, ReminderConfig, SessionConfig, StatusConfig, StatusTier, StorageBackend, TrashConfig } from './config.service';
 
 export interface DocItem {
   id: string;
   title: string;        // Maps to 'Note' in PB
-  details: string;      // Maps to 'NoteObservation' in PB OR 'Observations' collection
+  details: string;      // Maps to 'NoteObservation' in PB; the timeline lives in 'Observations'
   category: string;     // Maps to 'Category' in PB
-  expirationDate: string; // Maps to 'expiration_date' in PB
+  expirationDate: string; // Calendar day, 'yyyy-MM-dd'. Maps to 'expiration_date' in PB
   created: string;
-  notified?: boolean;
+  updated?: string;     // Last modification time; used to detect sync conflicts
+  renewalInterval?: RenewalInterval | null; // Maps to 'renewal_interval' in PB
+  renewalHistory?: RenewalRecord[];         // Maps to 'renewal_history' in PB
+  reminderLeadDays?: number[] | null;       // Per-document override; maps to 'reminder_lead_days' in PB
+  remindersSent?: string[];                 // Delivered reminder keys; maps to 'reminders_sent' in PB
+  notified?: boolean;                       // All reminders for the current expiration were delivered
+  attachments?: Attachment[];               // Scans of the paperwork; 'attachments' file field in PB
+  owner?: string;                           // User id of the creator; 'owner' relation in PB
+  readers?: string[];                       // Users the document is shared with read-only; 'readers' in PB
+  editors?: string[];                       // Users the document is shared with for editing; 'editors' in PB
+  team?: string;                            // Team the document is shared with; 'team' in PB
+  teamAccess?: ShareAccess;                 // What members of `team` may do; 'team_access' in PB
+  deletedAt?: string | null;                // When it was moved to the trash; 'deleted_at' in PB
 }
 
-export interface AppConfig {
-  usePocketBase: boolean;
-  pbUrl: string;
-  pbAuthToken: string; // Legacy/Fallback static token
+// Outcome of a bulk operation for one document
+export interface BatchResult {
+  id: string;
+  title: string;
+  error: string | null;   // null when the change was saved (or queued while offline)
 }
 
+// How a failed update is described, by its audit action
+const UPDATE_VERBS: Partial<Record<AuditAction, string>> = { delete: 'delete', restore: 'restore', renew: 'renew' };
+
 @Injectable({
   providedIn: 'root'
 })
 export class DataService {
-  // Hardcoded Schema Collections
-  private readonly COL_NOTES = 'Notes';
-  private readonly COL_OBSERVATIONS = 'Observations';
+  private configService = inject(ConfigService);
+  private pocketBase = inject(PocketBaseService);
+  private repositories = inject(DOCUMENT_REPOSITORIES);
+  private sync = inject(SyncService);
+  private audit = inject(AuditService);
+
+  // How often to check whether an unreachable server is back (30 seconds)
+  private readonly SYNC_RETRY_INTERVAL = 30000;
+  // How often expired documents are purged from the trash while the app is open (1 hour)
+  private readonly TRASH_PURGE_INTERVAL = 60 * 60 * 1000;
+  private lastTrashPurge = 0;
+  // Incremented per loadDocuments call, so responses to superseded loads can be told apart
+  private loadRequest = 0;
 
   // Signals
   documents = signal<DocItem[]>([]);
-  config = signal<AppConfig>({
-    usePocketBase: false,
-    pbUrl: 'http://127.0.0.1:8090',
-    pbAuthToken: ''
-  });
-
-  // Token obtained from active login session
-  private runtimeToken = signal<string>('');
+  // Documents in the trash, loaded by the Trash view
+  trash = signal<DocItem[]>([]);
+  config = this.configService.config.asReadonly();
+  // Active filters; applied by the storage backend so only matching documents are held in memory
+  query = signal<DocumentQuery>({});
+  // Signed-in user, set by AuthService; owns new documents and resolves the 'mine'/'shared' scopes
+  viewer = signal<Viewer | null>(null);
 
   isLoading = signal<boolean>(false);
   error = signal<string | null>(null);
 
-  // Timeout for fetch requests (10 seconds)
-  private readonly FETCH_TIMEOUT = 10000;
-
   constructor() {
-    this.loadConfig();
     this.loadDocuments();
-  }
 
-  // Helper to add timeout to fetch requests
-  private async fetchWithTimeout(url: string, options: RequestInit = {}): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.FETCH_TIMEOUT);
+    // Replay queued offline changes as soon as the server is reachable again
+    window.addEventListener('online', () => this.syncPendingChanges());
+    setInterval(() => {
+      if (!this.sync.isOnline()) this.syncPendingChanges();
+    }, this.SYNC_RETRY_INTERVAL);
+  }
 
-    try {
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal
-      });
-      clearTimeout(timeoutId);
-      return response;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Request timeout: Server did not respond in time');
-      }
-      throw error;
+  // Active storage backend, selected by name from the configuration
+  private get repository(): DocumentRepository {
+    const backend = this.config().storageBackend;
+    const repository = this.repositories.find(r => r.backend === backend);
+    if (!repository) {
+      throw new Error(`No storage backend registered for "${backend}"`);
     }
+    return repository;
   }
 
   setRuntimeToken(token: string) {
-    this.runtimeToken.set(token);
+    this.pocketBase.setAuthToken(token);
     // Reload data with new credentials if in PB mode
-    if (this.config().usePocketBase) {
+    if (this.config().storageBackend === 'pocketbase') {
       this.loadDocuments();
     }
   }
 
-  // --- Safe Storage Wrappers ---
+  // --- Configuration Management ---
 
-  private getSafeItem(key: string): string | null {
-    try {
-      return localStorage.getItem(key);
-    } catch (e) {
-      console.warn(`Storage access blocked for ${key}. App will run in volatile mode.`, e);
-      return null;
-    }
+  saveConfig(newConfig: AppConfig) {
+    // Started before the switch, so the entry goes to the backend the change was made from
+    this.audit.record('config', null, this.config(), newConfig);
+    this.configService.saveConfig(newConfig);
+    this.loadDocuments(); // Reload data based on new config
   }
 
-  private setSafeItem(key: string, value: string): void {
-    try {
-      localStorage.setItem(key, value);
-    } catch (e) {
-      console.warn(`Storage write blocked for ${key}.`, e);
-    }
+  // --- Data Operations ---
+
+  setQuery(query: DocumentQuery) {
+    this.query.set(query);
+    this.loadDocuments();
   }
 
-  // --- Configuration Management ---
-  private loadConfig() {
-    const savedConfig = this.getSafeItem('documinder_config');
-    if (savedConfig) {
-      try {
-        this.config.set(JSON.parse(savedConfig));
-      } catch (e) {
-        console.error('Config parse error', e);
-      }
+  // Switches the signed-in user; the local backends only list the documents of whoever is signed in,
+  // and the offline cache and queue are those of the new user
+  setViewer(viewer: Viewer | null) {
+    this.viewer.set(viewer);
+    this.sync.setOwner(viewer?.id ?? null);
+    if (!this.repository.remote) {
+      this.loadDocuments();
     }
   }
 
-  saveConfig(newConfig: AppConfig) {
-    this.config.set(newConfig);
-    this.setSafeItem('documinder_config', JSON.stringify(newConfig));
-    this.loadDocuments(); // Reload data based on new config
+  // The active filters plus who is asking
+  private scopedQuery(): DocumentQuery {
+    return { ...this.query(), ...this.viewerScope() };
   }
 
-  // --- Data Operations ---
+  // The 'mine'/'shared' scopes are relative to the viewer. The local backends keep every
+  // account's documents in one store, so there each user only gets their own.
+  private viewerScope(): DocumentQuery {
+    const viewer = this.viewer();
+    return this.repository.remote ? { viewer } : { viewer, owner: viewer?.id ?? '' };
+  }
+
+  // New documents belong to whoever created them, including imported ones that name another owner
+  private withOwner(doc: NewDocItem): NewDocItem {
+    const viewer = this.viewer();
+    return viewer ? { ...doc, owner: viewer.id } : doc;
+  }
 
+  // Loads overlap when filters change quickly; only the latest one may set the list
   async loadDocuments() {
+    const request = ++this.loadRequest;
+    const isCurrent = () => request === this.loadRequest;
     this.isLoading.set(true);
     this.error.set(null);
     try {
-      if (this.config().usePocketBase) {
-        await this.loadFromPocketBase();
+      const repository = this.repository;
+      if (repository.remote) {
+        await this.loadRemote(repository, isCurrent);
       } else {
-        this.loadFromLocal();
+        const docs = await repository.load(this.scopedQuery());
+        if (isCurrent()) this.documents.set(docs);
       }
+      this.purgeExpiredTrash(false);
     } catch (e: unknown) {
       console.error(e);
+      if (!isCurrent()) return;
       const errorMessage = e instanceof Error ? e.message : 'Unknown error';
       this.error.set('Failed to load data: ' + errorMessage);
       if (this.documents().length === 0) this.documents.set([]);
     } finally {
-      this.isLoading.set(false);
+      if (isCurrent()) this.isLoading.set(false);
     }
   }
 
-  async addDocument(doc: Omit<DocItem, 'id' | 'created'>) {
+  async addDocument(doc: NewDocItem) {
     this.isLoading.set(true);
+    doc = this.withOwner(doc);
     try {
-      if (this.config().usePocketBase) {
-        await this.addToPocketBase(doc);
-      } else {
-        this.addToLocal(doc);
+      const repository = this.repository;
+      try {
+        await this.logChange('create', null, await repository.add(doc));
+      } catch (e: unknown) {
+        if (!this.isQueueable(repository, e)) throw e;
+        this.setCachedDocuments(this.sync.queueCreate(doc));
+        await this.logChange('create', null, doc);
+        return;
       }
       await this.loadDocuments(); // Refresh
     } catch (e: unknown) {
@@ -151,207 +196,467 @@ export class DataService {
     }
   }
 
-  async deleteDocument(id: string) {
+  // A single document, from the loaded list when possible (it may be hidden by the active filters).
+  // Documents in the trash are only returned with `includeTrash`.
+  async getDocument(id: string, includeTrash = false): Promise<DocItem | null> {
+    const loaded = this.documents().find(d => d.id === id);
+    if (loaded) return loaded;
+
+    const repository = this.repository;
+    if (repository.remote && this.sync.isLocalOnly(id)) {
+      return this.sync.readCache().find(d => d.id === id) ?? null;
+    }
+    try {
+      const doc = await repository.get(id);
+      const scope: DocumentQuery = includeTrash ? { ...this.viewerScope(), trash: 'include' } : this.viewerScope();
+      return doc && matchesQuery(doc, scope) ? doc : null;
+    } catch (e: unknown) {
+      if (!this.isQueueable(repository, e)) throw e;
+      return this.sync.readCache().find(d => d.id === id) ?? null;
+    }
+  }
+
+  // Every document regardless of the active filters, e.g. for duplicate detection during import.
+  // `allAccounts` includes other local users' documents and the trash, for changes that apply to everything.
+  async fetchAllDocuments(allAccounts = false): Promise<DocItem[]> {
+    const repository = this.repository;
+    try {
+      return await repository.load(allAccounts ? { trash: 'include' } : this.viewerScope());
+    } catch (e: unknown) {
+      if (!this.isQueueable(repository, e)) throw e;
+      return this.sync.readCache();
+    }
+  }
+
+  // Adds several documents and refreshes once at the end. Returns how many were saved.
+  async importDocuments(docs: NewDocItem[]): Promise<number> {
     this.isLoading.set(true);
+    const repository = this.repository;
+    let saved = 0;
     try {
-      if (this.config().usePocketBase) {
-        await this.deleteFromPocketBase(id);
-      } else {
-        this.deleteFromLocal(id);
+      for (const doc of docs.map(d => this.withOwner(d))) {
+        try {
+          await this.logChange('create', null, await repository.add(doc));
+        } catch (e: unknown) {
+          if (!this.isQueueable(repository, e)) throw e;
+          this.sync.queueCreate(doc);
+          await this.logChange('create', null, doc);
+        }
+        saved++;
+      }
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.error.set(`Import stopped after ${saved} of ${docs.length}: ` + errorMessage);
+    }
+    await this.loadDocuments();
+    this.isLoading.set(false);
+    return saved;
+  }
+
+  async updateDocument(id: string, patch: DocItemPatch) {
+    await this.applyUpdate(id, patch, 'update');
+  }
+
+  // `action` is how the change appears in the audit log. Returns whether the change was saved or queued.
+  private async applyUpdate(id: string, patch: DocItemPatch, action: AuditAction): Promise<boolean> {
+    this.isLoading.set(true);
+    try {
+      patch = this.resetRemindersOnNewExpiration(id, patch);
+      const repository = this.repository;
+      // Restores and undos start from the trash, which the Trash view may not have loaded
+      const before = this.trash().find(d => d.id === id) ?? await this.getDocument(id, true);
+      // Edits to a document created offline have to wait behind its queued creation
+      if (repository.remote && this.sync.isLocalOnly(id)) {
+        this.setCachedDocuments(this.sync.queueUpdate(id, patch));
+        await this.logChange(action, before, before && { ...before, ...patch });
+        return true;
+      }
+      try {
+        await this.logChange(action, before, await repository.update(id, patch));
+      } catch (e: unknown) {
+        if (!this.isQueueable(repository, e)) throw e;
+        this.setCachedDocuments(this.sync.queueUpdate(id, patch));
+        await this.logChange(action, before, before && { ...before, ...patch });
+        return true;
       }
       await this.loadDocuments();
+      return true;
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.error.set(`Failed to ${UPDATE_VERBS[action] ?? 'update'}: ` + errorMessage);
+      return false;
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  // Moves every document in a category to another, continuing past documents that fail.
+  // Throws only when the documents could not be listed.
+  async recategorizeDocuments(from: string, to: string): Promise<BatchResult[]> {
+    // Categories are shared by every local account, so their documents move too
+    const affected = (await this.fetchAllDocuments(true)).filter(d => d.category === from);
+    return this.batchUpdate(affected, 'update', () => ({ category: to }));
+  }
+
+  // Rolls a recurring document forward by its renewal interval, keeping the old period in its history
+  async renewDocument(id: string) {
+    const doc = this.documents().find(d => d.id === id);
+    if (!doc?.renewalInterval) {
+      this.error.set('Failed to renew: document has no renewal interval');
+      return;
+    }
+    await this.applyUpdate(id, renew(doc.expirationDate, doc.renewalInterval, doc.renewalHistory), 'renew');
+  }
+
+  // Moves a document to the trash, where it stays until restored or purged. Returns whether it was moved.
+  async deleteDocument(id: string): Promise<boolean> {
+    return this.applyUpdate(id, { deletedAt: new Date().toISOString() }, 'delete');
+  }
+
+  async restoreDocument(id: string): Promise<boolean> {
+    const restored = await this.applyUpdate(id, { deletedAt: null }, 'restore');
+    if (restored) this.trash.update(docs => docs.filter(d => d.id !== id));
+    return restored;
+  }
+
+  // Lists the trash; documents past the retention period are purged first
+  async loadTrash() {
+    this.isLoading.set(true);
+    this.error.set(null);
+    try {
+      await this.purgeExpiredTrash();
+      this.trash.set(await this.repository.load({ ...this.viewerScope(), trash: 'only' }));
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.error.set('Failed to load trash: ' + errorMessage);
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  // Deletes a document from the trash for good, with its attachments and observations
+  async purgeDocument(id: string): Promise<boolean> {
+    this.isLoading.set(true);
+    try {
+      await this.purge(this.repository, this.trash().find(d => d.id === id) ?? await this.repository.get(id), id);
+      this.trash.update(docs => docs.filter(d => d.id !== id));
+      return true;
     } catch (e: unknown) {
       const errorMessage = e instanceof Error ? e.message : 'Unknown error';
       this.error.set('Failed to delete: ' + errorMessage);
+      return false;
     } finally {
       this.isLoading.set(false);
     }
   }
 
-  // --- Connection Test ---
-  async testConnection(url: string): Promise<{success: boolean, message: string}> {
+  // Purges everything in the listed trash. Returns how many were deleted.
+  async emptyTrash(): Promise<number> {
+    let purged = 0;
+    for (const doc of this.trash()) {
+      if (await this.purgeDocument(doc.id)) purged++;
+    }
+    return purged;
+  }
+
+  private async purge(repository: DocumentRepository, before: DocItem | null, id: string) {
+    if (repository.remote && this.sync.isLocalOnly(id)) {
+      this.sync.queueDelete(id);
+    } else {
+      try {
+        await repository.delete(id);
+      } catch (e: unknown) {
+        if (!this.isQueueable(repository, e)) throw e;
+        this.sync.queueDelete(id);
+      }
+    }
+    await this.logChange('purge', before, null);
+  }
+
+  // Applies the retention period from the settings, at most once per TRASH_PURGE_INTERVAL. Covers the
+  // trash of every local account; with PocketBase, whatever the server lets this user delete.
+  private async purgeExpiredTrash(force = true) {
+    const retentionDays = this.config().trash.retentionDays;
+    if (!retentionDays || !this.viewer()) return;
+    if (!force && Date.now() - this.lastTrashPurge < this.TRASH_PURGE_INTERVAL) return;
+    this.lastTrashPurge = Date.now();
+
+    const repository = this.repository;
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
     try {
-      // PocketBase usually provides a health endpoint
-      const response = await this.fetchWithTimeout(`${url}/api/health`);
-      if (response.ok) {
-        try {
-          const data = await response.json();
-          return { success: true, message: `Connected! Code: ${data.code}` };
-        } catch {
-          return { success: true, message: 'Connected (no JSON response)' };
-        }
+      const expired = (await repository.load({ trash: 'only' })).filter(d => Date.parse(d.deletedAt!) < cutoff);
+      for (const doc of expired) {
+        await this.purge(repository, doc, doc.id);
       }
-      return { success: false, message: `Server responded with ${response.status}` };
     } catch (e: unknown) {
-      const message = e instanceof Error ? e.message : 'Unknown error';
-      return { success: false, message: 'Unreachable: ' + message };
+      console.error('Failed to purge expired documents from the trash', e);
     }
   }
 
-  // --- Local Storage Implementation ---
+  // --- Bulk Operations ---
+  // Each saves document by document, carries on past failures and refreshes once at the end
+
+  async bulkDelete(docs: DocItem[]): Promise<BatchResult[]> {
+    const deletedAt = new Date().toISOString();
+    return this.batchUpdate(docs, 'delete', () => ({ deletedAt }));
+  }
 
-  private loadFromLocal() {
-    const data = this.getSafeItem('documinder_data');
-    if (data) {
+  // `docs` may be copies from before they were trashed (e.g. from the undo toast); the audit
+  // entries start from the trashed state
+  async bulkRestore(docs: DocItem[]): Promise<BatchResult[]> {
+    const trashed: DocItem[] = [];
+    for (const doc of docs) {
+      trashed.push(this.trash().find(d => d.id === doc.id) ?? await this.getDocument(doc.id, true).catch(() => null) ?? doc);
+    }
+    return this.batchUpdate(trashed, 'restore', () => ({ deletedAt: null }));
+  }
+
+  async bulkSetCategory(docs: DocItem[], category: string): Promise<BatchResult[]> {
+    return this.batchUpdate(docs, 'update', () => ({ category }));
+  }
+
+  // Moves each expiration date by `days` (negative for earlier)
+  async bulkShiftExpiration(docs: DocItem[], days: number): Promise<BatchResult[]> {
+    return this.batchUpdate(docs, 'update', doc => ({ expirationDate: addInterval(doc.expirationDate, { every: days, unit: 'days' }) }));
+  }
+
+  async bulkRenew(docs: DocItem[]): Promise<BatchResult[]> {
+    return this.batchUpdate(docs, 'renew', doc => {
+      if (!doc.renewalInterval) throw new Error('No renewal interval');
+      return renew(doc.expirationDate, doc.renewalInterval, doc.renewalHistory);
+    });
+  }
+
+  // `patchFor` may throw to skip a document with a reason
+  private async batchUpdate(docs: DocItem[], action: AuditAction, patchFor: (doc: DocItem) => DocItemPatch): Promise<BatchResult[]> {
+    this.isLoading.set(true);
+    const repository = this.repository;
+    const results: BatchResult[] = [];
+    for (const doc of docs) {
       try {
-        this.documents.set(JSON.parse(data));
-      } catch (e) {
-        console.error('Failed to parse documents from localStorage', e);
-        this.documents.set([]);
+        const patch = this.resetRemindersOnNewExpiration(doc.id, patchFor(doc));
+        let saved: DocItem;
+        if (repository.remote && this.sync.isLocalOnly(doc.id)) {
+          this.sync.queueUpdate(doc.id, patch);
+          saved = { ...doc, ...patch };
+        } else {
+          try {
+            saved = await repository.update(doc.id, patch);
+          } catch (e: unknown) {
+            if (!this.isQueueable(repository, e)) throw e;
+            this.sync.queueUpdate(doc.id, patch);
+            saved = { ...doc, ...patch };
+          }
+        }
+        await this.logChange(action, doc, saved);
+        results.push({ id: doc.id, title: doc.title, error: null });
+      } catch (e: unknown) {
+        const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+        results.push({ id: doc.id, title: doc.title, error: errorMessage });
       }
-    } else {
-      this.documents.set([]);
     }
+    await this.loadDocuments();
+    this.isLoading.set(false);
+    return results;
   }
 
-  private generateId(): string {
+  // Local documents from before accounts existed (no owner, or the former built-in demo account)
+  // go to the first admin, in every local backend. Returns how many were adopted.
+  async adoptLocalDocuments(ownerId: string): Promise<number> {
+    let adopted = 0;
+    for (const repository of this.repositories.filter(r => !r.remote)) {
+      const orphans = (await repository.load({ trash: 'include' })).filter(d => !d.owner || d.owner === 'local-admin');
+      for (const doc of orphans) {
+        await repository.update(doc.id, { owner: ownerId });
+        adopted++;
+      }
+    }
+    return adopted;
+  }
+
+  // --- Attachments ---
+
+  // Uploads files to a document; files that are not PDFs/images or are too large are rejected up front
+  async addAttachments(id: string, files: File[]) {
+    const invalid = files.map(validateAttachment).find(message => message !== null);
+    if (invalid) {
+      this.error.set('Failed to attach: ' + invalid);
+      return;
+    }
+
+    this.isLoading.set(true);
     try {
-      if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
-        return crypto.randomUUID();
+      // Uploads are not queued while offline; the document has to exist on the server first
+      if (this.repository.remote && this.sync.isLocalOnly(id)) {
+        throw new Error('Attachments can be added once the document has synced');
       }
-    } catch (e) {
-      console.warn('crypto.randomUUID() not available, using fallback', e);
+      const before = await this.getDocument(id);
+      const saved = await this.repository.addAttachments(id, files);
+      this.documents.update(docs => docs.map(d => d.id === id ? saved : d));
+      await this.logChange('update', before, saved);
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.error.set('Failed to attach: ' + errorMessage);
+    } finally {
+      this.isLoading.set(false);
     }
+  }
 
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-      const r = Math.random() * 16 | 0, v = c == 'x' ? r : (r & 0x3 | 0x8);
-      return v.toString(16);
-    });
+  async removeAttachment(id: string, attachment: Attachment) {
+    this.isLoading.set(true);
+    try {
+      const before = await this.getDocument(id);
+      const saved = await this.repository.removeAttachment(id, attachment);
+      this.documents.update(docs => docs.map(d => d.id === id ? saved : d));
+      await this.logChange('update', before, saved);
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.error.set('Failed to remove attachment: ' + errorMessage);
+    } finally {
+      this.isLoading.set(false);
+    }
   }
 
-  private addToLocal(doc: Omit<DocItem, 'id' | 'created'>) {
-    const newDoc: DocItem = {
-      ...doc,
-      id: this.generateId(),
-      created: new Date().toISOString()
-    };
-    const current = this.documents();
-    const updated = [newDoc, ...current];
-    this.documents.set(updated);
-    this.setSafeItem('documinder_data', JSON.stringify(updated));
+  // Local backends return object URLs, which the caller should revoke when done
+  attachmentUrl(doc: DocItem, attachment: Attachment, options?: AttachmentUrlOptions): Promise<string> {
+    return this.repository.attachmentUrl(doc, attachment, options);
   }
 
-  private deleteFromLocal(id: string) {
-    const updated = this.documents().filter(d => d.id !== id);
-    this.documents.set(updated);
-    this.setSafeItem('documinder_data', JSON.stringify(updated));
+  // Persists a change made in the background (no loading state, no reload), e.g. reminder bookkeeping
+  async saveInBackground(id: string, patch: DocItemPatch) {
+    const repository = this.repository;
+    try {
+      if (repository.remote && this.sync.isLocalOnly(id)) {
+        this.setCachedDocuments(this.sync.queueUpdate(id, patch));
+        return;
+      }
+      const saved = await repository.update(id, patch);
+      this.documents.update(docs => docs.map(d => d.id === id ? saved : d));
+    } catch (e: unknown) {
+      if (!this.isQueueable(repository, e)) {
+        console.error('Background save failed', e);
+        return;
+      }
+      this.setCachedDocuments(this.sync.queueUpdate(id, patch));
+    }
   }
 
-  // --- PocketBase Implementation ---
-  
-  // Helper to get the best available token
-  private getAuthToken(): string {
-      return this.runtimeToken() || this.config().pbAuthToken;
+  // Adds a document change to the audit log; `after` is null for deletions, `before` for creations
+  private async logChange(action: AuditAction, before: DocItem | null, after: DocItem | NewDocItem | null) {
+    const doc = after ?? before;
+    if (!doc) return;
+    // Documents queued while offline have no id yet
+    await this.audit.record(action, { id: (doc as Partial<DocItem>).id ?? '', title: doc.title }, before, after);
   }
 
-  private async loadFromPocketBase() {
-    const { pbUrl } = this.config();
-    const token = this.getAuthToken();
-    
-    // If no token (not logged in and no static token), we can't fetch private data
-    if (!token) return;
+  // A new expiration date starts a fresh reminder cycle
+  private resetRemindersOnNewExpiration(id: string, patch: DocItemPatch): DocItemPatch {
+    const current = this.documents().find(d => d.id === id);
+    if (!current || patch.expirationDate === undefined || patch.expirationDate === current.expirationDate) {
+      return patch;
+    }
+    return { notified: false, ...patch };
+  }
 
-    // Fetch Notes
-    const response = await this.fetchWithTimeout(`${pbUrl}/api/collections/${this.COL_NOTES}/records?sort=-created`, {
-      headers: { 'Authorization': token }
-    });
+  // --- Realtime ---
 
-    if (!response.ok) throw new Error(`PB Error: ${response.statusText}`);
-    const result = await response.json();
-    
-    // Map PB schema to App schema
-    const mappedDocs: DocItem[] = result.items.map((item: any) => ({
-      id: item.id,
-      title: item.Note || 'Untitled',
-      details: item.NoteObservation || '', 
-      category: item.Category || 'General',
-      expirationDate: item.expiration_date || item.created,
-      created: item.created
-    }));
-
-    this.documents.set(mappedDocs);
-  }
-
-  private async addToPocketBase(doc: Omit<DocItem, 'id' | 'created'>) {
-    const { pbUrl } = this.config();
-    const token = this.getAuthToken();
-
-    // 1. Create the Note in 'Notes' collection
-    const notePayload = {
-      Note: doc.title,
-      NoteObservation: doc.details,
-      Category: doc.category,
-      expiration_date: doc.expirationDate,
-    };
-
-    const response = await this.fetchWithTimeout(`${pbUrl}/api/collections/${this.COL_NOTES}/records`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': token
-      },
-      body: JSON.stringify(notePayload)
-    });
+  // Applies a change pushed by the server to the loaded list without a full reload
+  applyRemoteChange(action: 'create' | 'update' | 'delete', doc: DocItem) {
+    const others = this.documents().filter(d => d.id !== doc.id);
+    if (action === 'delete' || !matchesQuery(doc, this.scopedQuery())) {
+      this.documents.set(others);
+    } else if (action === 'create') {
+      this.documents.set([doc, ...others]);
+    } else {
+      this.documents.set(this.documents().some(d => d.id === doc.id)
+        ? this.documents().map(d => d.id === doc.id ? doc : d)
+        : [doc, ...others]);
+    }
 
-    if (!response.ok) {
-        let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-        try {
-            const err = await response.json();
-            errorMessage = JSON.stringify(err);
-        } catch {
-            // Response is not JSON, use status text
-        }
-        throw new Error(errorMessage);
+    if (isEmptyQuery(this.query())) this.sync.cacheDocuments(this.documents());
+  }
+
+  // --- Offline Sync ---
+
+  // Replays the offline queue before loading, and falls back to the cached copy while unreachable
+  private async loadRemote(repository: DocumentRepository, isCurrent: () => boolean) {
+    try {
+      await this.sync.replay(repository);
+      const query = this.scopedQuery();
+      const docs = await repository.load(query);
+      this.sync.isOnline.set(true);
+      // Only a complete listing can stand in for the server while offline
+      if (isEmptyQuery(query)) this.sync.cacheDocuments(docs);
+      if (isCurrent()) this.documents.set(docs);
+    } catch (e: unknown) {
+      if (!(e instanceof NetworkError)) throw e;
+      this.sync.isOnline.set(false);
+      if (isCurrent()) this.setCachedDocuments(this.sync.readCache());
+    }
+  }
+
+  // Shows the offline cache through the active filters
+  private setCachedDocuments(cached: DocItem[]) {
+    const query = this.scopedQuery();
+    this.documents.set(cached.filter(d => matchesQuery(d, query)));
+  }
+
+  // In remote mode an unreachable server queues the change instead of losing it
+  private isQueueable(repository: DocumentRepository, e: unknown): boolean {
+    if (!repository.remote || !(e instanceof NetworkError)) return false;
+    this.sync.isOnline.set(false);
+    return true;
+  }
+
+  async syncPendingChanges() {
+    const repository = this.repository;
+    if (!repository.remote || this.sync.isSyncing()) return;
+    if (!this.sync.isOnline()) {
+      const probe = await this.testConnection(this.config().pbUrl);
+      if (!probe.success) return;
     }
+    await this.loadDocuments(); // Replays the queue, then refreshes
+  }
 
-    const newNote = await response.json();
+  async retrySyncEntry(entryId: string) {
+    this.sync.retry(entryId);
+    await this.syncPendingChanges();
+  }
 
-    // 2. Create the Observation in 'Observations' collection (Linking tables)
-    // We attempt to create a record in the Observations table that links back to the Note
-    // This ensures all 3 tables (users, Notes, Observations) are utilized.
+  // Conflict resolution: push the local change over the newer server copy
+  async keepLocalChange(entryId: string) {
     try {
-        const obsPayload = {
-            note_id: newNote.id,
-            details: doc.details,
-            // Assuming the schema might simply default these or they are optional
-        };
-
-        const obsResponse = await this.fetchWithTimeout(`${pbUrl}/api/collections/${this.COL_OBSERVATIONS}/records`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': token
-            },
-            body: JSON.stringify(obsPayload)
-        });
-
-        if (!obsResponse.ok) {
-            let errorDetails = `HTTP ${obsResponse.status}`;
-            try {
-                const errData = await obsResponse.json();
-                errorDetails = JSON.stringify(errData);
-            } catch {
-                // Not JSON, use status
-            }
-            console.error('Failed to write to Observations table. Schema verification needed.', errorDetails);
-        }
-        // We don't fail the whole operation if this secondary write fails (e.g. if schema differs slightly)
-    } catch (obsErr) {
-        console.error('Could not write to Observations table. Network or configuration error.', obsErr);
+      await this.sync.overwriteServer(this.repository, entryId);
+      await this.loadDocuments();
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.error.set('Failed to sync: ' + errorMessage);
     }
   }
 
-  private async deleteFromPocketBase(id: string) {
-    const { pbUrl } = this.config();
-    const token = this.getAuthToken();
-    
-    const response = await this.fetchWithTimeout(`${pbUrl}/api/collections/${this.COL_NOTES}/records/${id}`, {
-      method: 'DELETE',
-      headers: {
-        'Authorization': token
-      }
-    });
+  // Conflict resolution: drop the local change and keep the server copy
+  async discardSyncEntry(entryId: string) {
+    this.sync.discard(entryId);
+    await this.loadDocuments();
+  }
 
-    if (!response.ok) throw new Error('Failed to delete from PB');
+  // --- Connection Test ---
+  async testConnection(url: string): Promise<{success: boolean, message: string}> {
+    try {
+      // PocketBase usually provides a health endpoint
+      const response = await fetchWithTimeout(`${url}/api/health`);
+      if (response.ok) {
+        try {
+          const data = await response.json();
+          return { success: true, message: `Connected! Code: ${data.code}` };
+        } catch {
+          return { success: true, message: 'Connected (no JSON response)' };
+        }
+      }
+      return { success: false, message: `Server responded with ${response.status}` };
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      return { success: false, message: 'Unreachable: ' + message };
+    }
   }
 }
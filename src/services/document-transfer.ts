@@ -0,0 +1,138 @@
+import type { DocItem } from './data.service';
+import type { NewDocItem } from './storage/document-repository';
+import { formatCalendarDate, isCalendarDate } from './calendar-date';
+import { parseCsv, toCsv } from './csv';
+
+// Bulk import/export of documents as CSV or JSON.
+
+export type TransferField = 'title' | 'category' | 'details' | 'expirationDate';
+
+export const TRANSFER_FIELDS: { field: TransferField, label: string, required: boolean, aliases: string[] }[] = [
+  { field: 'title', label: 'Title', required: true, aliases: ['title', 'name', 'note', 'document'] },
+  { field: 'category', label: 'Category', required: false, aliases: ['category', 'type', 'group'] },
+  { field: 'details', label: 'Details', required: false, aliases: ['details', 'description', 'notes', 'observation', 'noteobservation'] },
+  { field: 'expirationDate', label: 'Expiration Date', required: true, aliases: ['expirationdate', 'expiration', 'expires', 'expiry', 'expiration_date', 'due', 'date'] }
+];
+
+// Source column chosen for each document field ('' = not mapped)
+export type ColumnMapping = Record<TransferField, string>;
+
+export interface SourceTable {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface PreviewRow {
+  index: number;          // 1-based row number in the source file
+  doc: NewDocItem | null; // null when the row has errors
+  errors: string[];
+  duplicate: 'existing' | 'file' | null;
+}
+
+// --- Reading ---
+
+export function readTable(filename: string, text: string): SourceTable {
+  return /\.json$/i.test(filename) ? readJson(text) : readCsv(text);
+}
+
+function readCsv(text: string): SourceTable {
+  const [header = [], ...body] = parseCsv(text);
+  const columns = header.map(c => c.trim());
+  const rows = body.map(cells => Object.fromEntries(columns.map((c, i) => [c, cells[i] ?? ''])));
+  return { columns, rows };
+}
+
+// Accepts an array of objects, or an object wrapping one (e.g. { "documents": [...] })
+function readJson(text: string): SourceTable {
+  const parsed = JSON.parse(text);
+  const items: unknown = Array.isArray(parsed) ? parsed : Object.values(parsed ?? {}).find(Array.isArray);
+  if (!Array.isArray(items)) {
+    throw new Error('Expected a JSON array of documents');
+  }
+
+  const columns: string[] = [];
+  const rows = items
+    .filter(item => item && typeof item === 'object')
+    .map((item: Record<string, unknown>) => {
+      const row: Record<string, string> = {};
+      for (const [key, value] of Object.entries(item)) {
+        if (!columns.includes(key)) columns.push(key);
+        row[key] = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      }
+      return row;
+    });
+  return { columns, rows };
+}
+
+// Matches columns to fields by name, ignoring case, spaces and underscores
+export function guessMapping(columns: string[]): ColumnMapping {
+  const normalize = (value: string) => value.toLowerCase().replace(/[\s_-]/g, '');
+  const mapping = {} as ColumnMapping;
+  for (const { field, aliases } of TRANSFER_FIELDS) {
+    const normalizedAliases = aliases.map(normalize);
+    mapping[field] = columns.find(c => normalizedAliases.includes(normalize(c))) ?? '';
+  }
+  return mapping;
+}
+
+// --- Validation ---
+
+export function duplicateKey(title: string, category: string): string {
+  return `${title.trim().toLowerCase()}|${category.trim().toLowerCase()}`;
+}
+
+export function buildPreview(table: SourceTable, mapping: ColumnMapping, existing: DocItem[], defaultCategory: string): PreviewRow[] {
+  const existingKeys = new Set(existing.map(d => duplicateKey(d.title, d.category)));
+  const seenKeys = new Set<string>();
+
+  return table.rows.map((row, i) => {
+    const value = (field: TransferField) => mapping[field] ? (row[mapping[field]] ?? '').trim() : '';
+    const errors: string[] = [];
+
+    const title = value('title');
+    if (!title) errors.push('Title is required');
+
+    const category = value('category') || defaultCategory;
+
+    const rawDate = value('expirationDate');
+    const expirationDate = rawDate ? parseDate(rawDate) : null;
+    if (!rawDate) errors.push('Expiration date is required');
+    else if (!expirationDate) errors.push(`Unrecognized date "${rawDate}"`);
+
+    const key = duplicateKey(title, category);
+    const duplicate = !title ? null : existingKeys.has(key) ? 'existing' : seenKeys.has(key) ? 'file' : null;
+    seenKeys.add(key);
+
+    return {
+      index: i + 1,
+      doc: errors.length ? null : { title, category, details: value('details'), expirationDate: expirationDate! },
+      errors,
+      duplicate
+    };
+  });
+}
+
+// Accepts yyyy-MM-dd, full ISO timestamps and anything else Date can parse
+function parseDate(value: string): string | null {
+  // ISO values (including our own exports) already name the calendar day
+  const isoDay = /^(\d{4}-\d{2}-\d{2})(?:$|[T ])/.exec(value);
+  if (isoDay) {
+    return isCalendarDate(isoDay[1]) ? isoDay[1] : null;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  // Keep the calendar day the user wrote
+  return formatCalendarDate(date);
+}
+
+// --- Writing ---
+
+export function documentsToCsv(docs: DocItem[]): string {
+  const header = ['title', 'category', 'details', 'expirationDate', 'created'];
+  const rows = docs.map(d => [d.title, d.category, d.details, d.expirationDate.slice(0, 10), d.created]);
+  return toCsv([header, ...rows]);
+}
+
+export function documentsToJson(docs: DocItem[]): string {
+  return JSON.stringify(docs, null, 2);
+}
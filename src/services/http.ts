@@ -0,0 +1,48 @@
+// Thrown when the server could not be reached at all (offline, DNS, CORS, timeout),
+// as opposed to the server answering with an error status
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// Timeout for fetch requests (10 seconds)
+export const FETCH_TIMEOUT = 10000;
+
+// Helper to add timeout to fetch requests
+export async function fetchWithTimeout(url: string, options: RequestInit = {}, timeout = FETCH_TIMEOUT): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      ...options,
+      signal: controller.signal
+    });
+    clearTimeout(timeoutId);
+    return response;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new NetworkError('Request timeout: Server did not respond in time');
+    }
+    // fetch rejects with a TypeError when the request never reaches the server
+    if (error instanceof TypeError) {
+      throw new NetworkError(`Network error: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+// Builds a readable message from a failed response, preferring the JSON error body
+export async function readErrorMessage(response: Response): Promise<string> {
+  let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+  try {
+    const err = await response.json();
+    errorMessage = JSON.stringify(err);
+  } catch {
+    // Response is not JSON, use status text
+  }
+  return errorMessage;
+}
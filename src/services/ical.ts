@@ -0,0 +1,173 @@
+import type { DocItem } from './data.service';
+import type { NewDocItem } from './storage/document-repository';
+import { isCalendarDate } from './calendar-date';
+
+// iCalendar (RFC 5545) serialization of document expirations.
+
+const UID_DOMAIN = 'documinder';
+
+export interface IcsEvent {
+  uid?: string;
+  doc: NewDocItem;
+}
+
+// Stable UID so re-importing or re-subscribing updates events instead of duplicating them
+export function documentUid(id: string): string {
+  return `${id}@${UID_DOMAIN}`;
+}
+
+export function buildCalendar(docs: DocItem[], leadDaysFor: (doc: DocItem) => number[]): string {
+  const stamp = formatDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//DocuMinder//Document Expirations//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:DocuMinder Expirations'
+  ];
+
+  for (const doc of docs) {
+    const day = doc.expirationDate.slice(0, 10);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${documentUid(doc.id)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${day.replace(/-/g, '')}`,
+      `DTEND;VALUE=DATE:${nextDay(day)}`,
+      `SUMMARY:${escapeText(doc.title)}`,
+      `CATEGORIES:${escapeText(doc.category)}`,
+      'TRANSP:TRANSPARENT'
+    );
+    if (doc.details) lines.push(`DESCRIPTION:${escapeText(doc.details)}`);
+    if (doc.created) lines.push(`CREATED:${formatDateTime(new Date(doc.created))}`);
+    if (doc.updated) lines.push(`LAST-MODIFIED:${formatDateTime(new Date(doc.updated))}`);
+
+    for (const days of leadDaysFor(doc)) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(`${doc.title} expires in ${days} day(s)`)}`,
+        `TRIGGER:-P${days}D`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Reads every VEVENT into a document; events without a start date are skipped
+export function parseCalendar(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: Record<string, string> | null = null;
+  let alarmDays: number[] = [];
+  let inAlarm = false;
+
+  for (const line of unfold(text)) {
+    const { name, value } = parseLine(line);
+    if (name === 'BEGIN' && value === 'VEVENT') {
+      current = {};
+      alarmDays = [];
+    } else if (name === 'BEGIN' && value === 'VALARM') {
+      inAlarm = true;
+    } else if (name === 'END' && value === 'VALARM') {
+      inAlarm = false;
+    } else if (name === 'END' && value === 'VEVENT' && current) {
+      const event = toEvent(current, alarmDays);
+      if (event) events.push(event);
+      current = null;
+    } else if (current && inAlarm) {
+      const match = name === 'TRIGGER' ? /^-P(?:(\d+)W)?(?:(\d+)D)?/.exec(value) : null;
+      if (match && (match[1] || match[2])) {
+        alarmDays.push(Number(match[1] ?? 0) * 7 + Number(match[2] ?? 0));
+      }
+    } else if (current && !(name in current)) {
+      current[name] = value;
+    }
+  }
+  return events;
+}
+
+function toEvent(props: Record<string, string>, alarmDays: number[]): IcsEvent | null {
+  const start = props['DTSTART'];
+  const match = start ? /^(\d{4})(\d{2})(\d{2})/.exec(start) : null;
+  const expirationDate = match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+  if (!isCalendarDate(expirationDate)) return null;
+
+  const leadDays = [...new Set(alarmDays.filter(d => d > 0))].sort((a, b) => b - a);
+  return {
+    uid: props['UID'],
+    doc: {
+      title: unescapeText(props['SUMMARY'] || '') || 'Untitled',
+      details: unescapeText(props['DESCRIPTION'] || ''),
+      category: unescapeText(splitList(props['CATEGORIES'] || '')[0] || '') || 'General',
+      expirationDate,
+      reminderLeadDays: leadDays.length ? leadDays : null
+    }
+  };
+}
+
+// --- Text Encoding ---
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => c.toLowerCase() === 'n' ? '\n' : c);
+}
+
+// Splits a comma-separated property value, respecting escaped commas
+function splitList(value: string): string[] {
+  return value.split(/(?<!\\),/);
+}
+
+// Lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length ? 74 : 75; // Continuation lines start with a space
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function unfold(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(l => l.length);
+}
+
+// "DTSTART;VALUE=DATE:20250101" -> { name: 'DTSTART', value: '20250101' }
+function parseLine(line: string): { name: string, value: string } {
+  const colon = line.indexOf(':');
+  if (colon < 0) return { name: line.toUpperCase(), value: '' };
+  const name = line.slice(0, colon).split(';')[0].toUpperCase();
+  return { name, value: line.slice(colon + 1) };
+}
+
+// --- Dates ---
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function nextDay(day: string): string {
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10).replace(/-/g, '');
+}
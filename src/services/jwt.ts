@@ -0,0 +1,13 @@
+// Reads the expiry of a JWT without verifying it. Returns milliseconds since the epoch, or null
+// when the token is malformed or has no `exp` claim.
+export function tokenExpiry(token: string): number | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=');
+    const { exp } = JSON.parse(atob(base64));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,127 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { hashPassword, MIN_PASSWORD_LENGTH, PasswordHash, verifyPassword } from './password';
+import type { Role } from './permissions';
+import { generateId, getSafeItem, setSafeItem } from './storage/storage-utils';
+
+export interface LocalUser {
+  id: string;
+  email: string;       // Sign-in name, unique ignoring case
+  name: string;
+  role: Role;
+  disabled: boolean;
+  password: PasswordHash;
+  created: string;
+}
+
+export interface NewLocalUser {
+  email: string;
+  name: string;
+  role: Role;
+  password: string;
+}
+
+/**
+ * Accounts for the local backends, so several people can share one browser (e.g. an
+ * office machine) with their own documents. Kept in localStorage with salted PBKDF2
+ * hashes; the first account is created by the first-run setup and is always an admin.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LocalUserService {
+  private readonly STORAGE_KEY = 'documinder_local_users';
+
+  users = signal<LocalUser[]>(this.read());
+  // No accounts yet: the app asks for an admin before anyone can sign in
+  needsSetup = computed(() => this.users().length === 0);
+
+  // Returns the account for valid credentials; disabled accounts cannot sign in
+  async authenticate(email: string, password: string): Promise<LocalUser | null> {
+    const user = this.findByEmail(email);
+    if (!user || user.disabled) return null;
+    return await verifyPassword(password, user.password) ? user : null;
+  }
+
+  // Current copy of a signed-in account, e.g. to check it was not disabled since
+  get(id: string): LocalUser | null {
+    return this.users().find(u => u.id === id) ?? null;
+  }
+
+  async setupAdmin(admin: Omit<NewLocalUser, 'role'>): Promise<LocalUser> {
+    if (!this.needsSetup()) throw new Error('Setup has already been completed');
+    return this.create({ ...admin, role: 'admin' });
+  }
+
+  async create(user: NewLocalUser): Promise<LocalUser> {
+    const email = user.email.trim();
+    if (!email) throw new Error('Email is required');
+    if (this.findByEmail(email)) throw new Error(`An account for ${email} already exists`);
+    this.checkPassword(user.password);
+
+    const created: LocalUser = {
+      id: generateId(),
+      email,
+      name: user.name.trim() || email,
+      role: user.role,
+      disabled: false,
+      password: await hashPassword(user.password),
+      created: new Date().toISOString()
+    };
+    this.write([...this.users(), created]);
+    return created;
+  }
+
+  async resetPassword(id: string, password: string) {
+    this.checkPassword(password);
+    const hash = await hashPassword(password);
+    this.patch(id, { password: hash });
+  }
+
+  setRole(id: string, role: Role) {
+    if (role !== 'admin') this.keepAnAdmin(id);
+    this.patch(id, { role });
+  }
+
+  setDisabled(id: string, disabled: boolean) {
+    if (disabled) this.keepAnAdmin(id);
+    this.patch(id, { disabled });
+  }
+
+  private findByEmail(email: string): LocalUser | undefined {
+    const needle = email.trim().toLowerCase();
+    return this.users().find(u => u.email.toLowerCase() === needle);
+  }
+
+  private checkPassword(password: string) {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+  }
+
+  // Someone has to be able to manage the accounts
+  private keepAnAdmin(id: string) {
+    const others = this.users().filter(u => u.id !== id && u.role === 'admin' && !u.disabled);
+    if (!others.length) throw new Error('At least one active admin is required');
+  }
+
+  private patch(id: string, changes: Partial<LocalUser>) {
+    if (!this.get(id)) throw new Error('User not found');
+    this.write(this.users().map(u => u.id === id ? { ...u, ...changes } : u));
+  }
+
+  private read(): LocalUser[] {
+    const data = getSafeItem(this.STORAGE_KEY);
+    if (!data) return [];
+    try {
+      return JSON.parse(data);
+    } catch (e) {
+      console.error('Failed to parse local users', e);
+      return [];
+    }
+  }
+
+  private write(users: LocalUser[]) {
+    this.users.set(users);
+    setSafeItem(this.STORAGE_KEY, JSON.stringify(users));
+  }
+}
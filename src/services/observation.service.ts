@@ -0,0 +1,140 @@
+import { Injectable, inject } from '@angular/core';
+import { AuthService } from './auth.service';
+import { DataService } from './data.service';
+import { filterValue, PocketBaseService } from './pocketbase.service';
+import { readLocalObservations, writeLocalObservations } from './storage/local-observations';
+import { generateId } from './storage/storage-utils';
+
+export interface Observation {
+  id: string;
+  docId: string;     // Maps to 'note_id' in PB by default
+  text: string;      // Maps to 'details' in PB by default
+  author: string;    // Display name of the writer
+  authorId: string;
+  created: string;
+  updated: string;
+}
+
+interface ObservationStore {
+  list(docId: string): Promise<Observation[]>;
+  create(observation: Omit<Observation, 'id' | 'created' | 'updated'>): Promise<Observation>;
+  update(id: string, text: string): Promise<Observation>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Timestamped notes on a document. Read from and written to the PocketBase observations
+ * collection (linked to the note through the configured field) or, for the local backends, localStorage.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ObservationService {
+  private dataService = inject(DataService);
+  private authService = inject(AuthService);
+  private pb = inject(PocketBaseService);
+
+  private localStore: ObservationStore = {
+    list: async docId => readLocalObservations().filter(o => o.docId === docId),
+    create: async observation => {
+      const now = new Date().toISOString();
+      const created: Observation = { ...observation, id: generateId(), created: now, updated: now };
+      writeLocalObservations([...readLocalObservations(), created]);
+      return created;
+    },
+    update: async (id, text) => {
+      const observations = readLocalObservations();
+      const existing = observations.find(o => o.id === id);
+      if (!existing) throw new Error('Observation not found');
+      const updated: Observation = { ...existing, text, updated: new Date().toISOString() };
+      writeLocalObservations(observations.map(o => o.id === id ? updated : o));
+      return updated;
+    },
+    delete: async id => {
+      writeLocalObservations(readLocalObservations().filter(o => o.id !== id));
+    }
+  };
+
+  private pocketBaseStore: ObservationStore = {
+    list: async docId => {
+      const items = await this.pb.listAll<any>(this.fields.collection, {
+        filter: `${this.fields.noteId}=${filterValue(docId)}`,
+        sort: 'created'
+      });
+      return items.map(item => this.fromRecord(item));
+    },
+    create: async observation => {
+      const record = await this.pb.request<any>(this.pb.recordsUrl(this.fields.collection), {
+        method: 'POST',
+        body: JSON.stringify({
+          [this.fields.noteId]: observation.docId,
+          [this.fields.text]: observation.text,
+          [this.fields.author]: observation.author,
+          [this.fields.authorId]: observation.authorId
+        })
+      });
+      return this.fromRecord(record);
+    },
+    update: async (id, text) => {
+      const record = await this.pb.request<any>(this.pb.recordsUrl(this.fields.collection, id), {
+        method: 'PATCH',
+        body: JSON.stringify({ [this.fields.text]: text })
+      });
+      return this.fromRecord(record);
+    },
+    delete: async id => {
+      await this.pb.request(this.pb.recordsUrl(this.fields.collection, id), { method: 'DELETE' });
+    }
+  };
+
+  // Collection and field names from the schema mapping in Settings
+  private get fields() {
+    return this.pb.schema.observations;
+  }
+
+  private get store(): ObservationStore {
+    return this.dataService.config().storageBackend === 'pocketbase' ? this.pocketBaseStore : this.localStore;
+  }
+
+  // Oldest first, so the thread reads top to bottom
+  async list(docId: string): Promise<Observation[]> {
+    const observations = await this.store.list(docId);
+    return observations.sort((a, b) => a.created.localeCompare(b.created));
+  }
+
+  async add(docId: string, text: string): Promise<Observation> {
+    const trimmed = text.trim();
+    if (!trimmed) throw new Error('Observation text is required');
+    const user = this.authService.currentUser();
+    return this.store.create({
+      docId,
+      text: trimmed,
+      author: user?.username ?? 'Unknown User',
+      authorId: user?.id ?? ''
+    });
+  }
+
+  async update(id: string, text: string): Promise<Observation> {
+    const trimmed = text.trim();
+    if (!trimmed) throw new Error('Observation text is required');
+    return this.store.update(id, trimmed);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.store.delete(id);
+  }
+
+  // Records written before authorship was tracked have no author
+  private fromRecord(item: any): Observation {
+    const f = this.fields;
+    return {
+      id: item.id,
+      docId: item[f.noteId],
+      text: item[f.text] || '',
+      author: item[f.author] || 'Unknown User',
+      authorId: item[f.authorId] || '',
+      created: item.created,
+      updated: item.updated || item.created
+    };
+  }
+}
@@ -0,0 +1,42 @@
+// Password hashing for local accounts with WebCrypto PBKDF2 (SHA-256) and a random salt per user
+
+export interface PasswordHash {
+  hash: string;        // Base64 derived key
+  salt: string;        // Base64 random salt
+  iterations: number;  // Stored so the cost can be raised later without breaking existing accounts
+}
+
+const ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export async function hashPassword(password: string, salt?: string, iterations = ITERATIONS): Promise<PasswordHash> {
+  const saltBytes = salt ? fromBase64(salt) : crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: saltBytes, iterations },
+    key,
+    KEY_BITS
+  );
+  return { hash: toBase64(new Uint8Array(bits)), salt: toBase64(saltBytes), iterations };
+}
+
+export async function verifyPassword(password: string, stored: PasswordHash): Promise<boolean> {
+  const { hash } = await hashPassword(password, stored.salt, stored.iterations);
+  // Compare every character so the time taken does not reveal how much matched
+  let diff = hash.length ^ stored.hash.length;
+  for (let i = 0; i < Math.min(hash.length, stored.hash.length); i++) {
+    diff |= hash.charCodeAt(i) ^ stored.hash.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
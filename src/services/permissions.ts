@@ -0,0 +1,33 @@
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export type Permission =
+  | 'doc:read'
+  | 'doc:create'
+  | 'doc:update'    // Also covers renewals, attachments and observations
+  | 'doc:delete'
+  | 'category:manage'
+  | 'settings:write'
+  | 'users:manage'    // Local accounts; PocketBase users are managed in PocketBase
+  | 'audit:read';
+
+export const ROLES: Role[] = ['viewer', 'editor', 'admin'];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ['doc:read'],
+  editor: ['doc:read', 'doc:create', 'doc:update', 'doc:delete', 'category:manage'],
+  admin: ['doc:read', 'doc:create', 'doc:update', 'doc:delete', 'category:manage', 'settings:write', 'users:manage', 'audit:read']
+};
+
+// Maps the role stored on the user record. Anything missing or unrecognised gets the least
+// access, so an account only edits once a superuser has made it an editor. The match is exact,
+// as in the PocketBase API rules: an "Admin" the rules would not let through is no admin here either.
+export function normalizeRole(role: string | null | undefined): Role {
+  switch (role) {
+    case 'admin':
+      return 'admin';
+    case 'editor':
+      return 'editor';
+    default:
+      return 'viewer';
+  }
+}
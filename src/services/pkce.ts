@@ -0,0 +1,17 @@
+// PKCE (RFC 7636) for the OAuth2 code flow: the verifier stays in this browser and only its
+// SHA-256 challenge is sent to the provider, so an intercepted code cannot be exchanged elsewhere.
+
+export interface PkcePair {
+  verifier: string;
+  challenge: string;
+}
+
+export async function createPkcePair(): Promise<PkcePair> {
+  const verifier = base64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return { verifier, challenge: base64Url(new Uint8Array(digest)) };
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
@@ -0,0 +1,180 @@
+import { ACCEPTED_ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE } from './attachments';
+import type { PocketBaseSchema } from './config.service';
+
+// What the app expects to find in PocketBase, derived from the configured names
+
+export type RuleAction = 'list' | 'view' | 'create' | 'update' | 'delete';
+export const RULE_ACTIONS: RuleAction[] = ['list', 'view', 'create', 'update', 'delete'];
+
+export interface FieldSpec {
+  name: string;
+  accepts: string[];                    // Field types that work with the app; the first is used when creating
+  options?: Record<string, unknown>;    // Extra settings for the created field
+  relationTo?: keyof PocketBaseSchema;  // For relation fields, the collection it points at
+}
+
+export interface CollectionSpec {
+  key: keyof PocketBaseSchema;
+  name: string;
+  type: 'base' | 'auth';
+  fields: FieldSpec[];
+  rules: Record<RuleAction, string | null>;
+}
+
+// Any signed-in user
+const SIGNED_IN = '@request.auth.id != ""';
+// Users may only edit their own account
+const OWN_ACCOUNT = 'id = @request.auth.id';
+
+// Filter expressions for who may reach a note. `via` prefixes the note fields, e.g. 'note_id.'
+// to apply them to observations through their relation. Shared by the API rules and the dashboard scopes.
+export function noteAccess(schema: PocketBaseSchema, via = '') {
+  const { notes, users } = schema;
+  const field = (name: string) => via + name;
+  const team = `(${field(notes.team)} != "" && ${field(notes.team)} = @request.auth.${users.team})`;
+  return {
+    mine: `${field(notes.owner)} = @request.auth.id`,
+    // Documents from before ownership existed stay open to every signed-in user
+    unowned: `${field(notes.owner)} = ""`,
+    admin: `@request.auth.${users.role} = "admin"`,
+    sharedRead: `(${field(notes.readers)}.id ?= @request.auth.id || ${field(notes.editors)}.id ?= @request.auth.id || ${team})`,
+    sharedEdit: `(${field(notes.editors)}.id ?= @request.auth.id || (${team} && ${field(notes.teamAccess)} = "edit"))`
+  };
+}
+
+function noteRules(schema: PocketBaseSchema, via = ''): { read: string; edit: string; manage: string } {
+  const access = noteAccess(schema, via);
+  const owners = `${access.mine} || ${access.unowned} || ${access.admin}`;
+  return {
+    read: `${SIGNED_IN} && (${owners} || ${access.sharedRead})`,
+    edit: `${SIGNED_IN} && (${owners} || ${access.sharedEdit})`,
+    manage: `${SIGNED_IN} && (${owners})`
+  };
+}
+
+const text = (name: string): FieldSpec => ({ name, accepts: ['text', 'editor', 'email', 'url', 'select'] });
+const json = (name: string): FieldSpec => ({ name, accepts: ['json'] });
+const bool = (name: string): FieldSpec => ({ name, accepts: ['bool'] });
+const user = (name: string, maxSelect: number): FieldSpec => ({ name, accepts: ['relation'], relationTo: 'users', options: { maxSelect } });
+
+export function requiredCollections(schema: PocketBaseSchema): CollectionSpec[] {
+  const { notes, observations, categories, users, audit } = schema;
+  const signedIn = { list: SIGNED_IN, view: SIGNED_IN, create: SIGNED_IN, update: SIGNED_IN, delete: SIGNED_IN };
+  const note = noteRules(schema);
+  const observationNote = noteRules(schema, `${observations.noteId}.`);
+  // Only the owner (or an admin) may hand out access or move the document to the trash;
+  // editors can change everything else
+  const ownerFields = [notes.owner, notes.readers, notes.editors, notes.team, notes.teamAccess, notes.deletedAt];
+  const keepsOwnerFields = `(${ownerFields.map(f => `@request.body.${f}:isset = false`).join(' && ')})`;
+  // Role and team are assigned by a superuser, never by the account itself
+  const keepsAccess = `@request.body.${users.role}:isset = false && @request.body.${users.team}:isset = false`;
+  const adminOnly = `${SIGNED_IN} && ${noteAccess(schema).admin}`;
+
+  // Users come first so the relations on notes can point at the collection
+  return [
+    {
+      key: 'users',
+      name: users.collection,
+      type: 'auth',
+      // Everyone signed in can look others up to share documents with them. Accounts are created
+      // by a superuser or on the first sign-in through an OAuth2 provider.
+      rules: {
+        list: SIGNED_IN,
+        view: SIGNED_IN,
+        create: `@request.context = "oauth2" && ${keepsAccess}`,
+        update: `${OWN_ACCOUNT} && ${keepsAccess}`,
+        delete: null
+      },
+      fields: [text(users.role), text(users.team)]
+    },
+    {
+      key: 'notes',
+      name: notes.collection,
+      type: 'base',
+      rules: {
+        list: note.read,
+        view: note.read,
+        create: `${SIGNED_IN} && @request.body.${notes.owner} = @request.auth.id`,
+        update: `${note.edit} && (${keepsOwnerFields} || (${note.manage}))`,
+        delete: note.manage
+      },
+      fields: [
+        text(notes.title),
+        text(notes.details),
+        text(notes.category),
+        { name: notes.expirationDate, accepts: ['date', 'text'] },
+        json(notes.renewalInterval),
+        json(notes.renewalHistory),
+        json(notes.reminderLeadDays),
+        json(notes.remindersSent),
+        bool(notes.notified),
+        {
+          name: notes.attachments,
+          accepts: ['file'],
+          options: {
+            maxSelect: 20,
+            maxSize: MAX_ATTACHMENT_SIZE,
+            mimeTypes: ACCEPTED_ATTACHMENT_TYPES,
+            thumbs: ['100x100'],
+            protected: true
+          }
+        },
+        user(notes.owner, 1),
+        user(notes.readers, 999),
+        user(notes.editors, 999),
+        text(notes.team),
+        text(notes.teamAccess),
+        { name: notes.deletedAt, accepts: ['date', 'text'] }
+      ]
+    },
+    {
+      key: 'observations',
+      name: observations.collection,
+      type: 'base',
+      // Whoever can see a document can comment on it; the relation is needed to look the document up
+      rules: {
+        list: observationNote.read,
+        view: observationNote.read,
+        create: observationNote.read,
+        update: observationNote.edit,
+        delete: observationNote.edit
+      },
+      fields: [
+        // A relation removes observations together with their document and lets the rules above follow it
+        { name: observations.noteId, accepts: ['relation', 'text'], relationTo: 'notes', options: { maxSelect: 1, cascadeDelete: true } },
+        text(observations.text),
+        text(observations.author),
+        text(observations.authorId)
+      ]
+    },
+    {
+      key: 'categories',
+      name: categories.collection,
+      type: 'base',
+      rules: signedIn,
+      fields: [text('name'), text('color'), text('icon'), bool('archived')]
+    },
+    {
+      key: 'audit',
+      name: audit.collection,
+      type: 'base',
+      // Everyone signs their own entries; only admins read the log and nobody can rewrite it
+      rules: {
+        list: adminOnly,
+        view: adminOnly,
+        create: `${SIGNED_IN} && @request.body.${audit.actorId} = @request.auth.id`,
+        update: null,
+        delete: null
+      },
+      fields: [
+        { name: audit.timestamp, accepts: ['date', 'text'] },
+        text(audit.action),
+        text(audit.targetId),
+        text(audit.targetTitle),
+        text(audit.actorId),
+        text(audit.actorName),
+        json(audit.changes)
+      ]
+    }
+  ];
+}
@@ -0,0 +1,119 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { Subject } from 'rxjs';
+import { ConfigService, PocketBaseSchema } from './config.service';
+import { fetchWithTimeout, readErrorMessage } from './http';
+
+export class PocketBaseError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'PocketBaseError';
+  }
+}
+
+interface PocketBaseList<T> {
+  items: T[];
+  page: number;
+  perPage: number;
+  totalPages: number;
+}
+
+// Quotes a value for use inside a PocketBase filter expression
+export function filterValue(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PocketBaseService {
+  private configService = inject(ConfigService);
+
+  // Token obtained from active login session
+  private runtimeToken = signal<string>('');
+
+  // Emits when the server rejects the session token (HTTP 401), e.g. because it expired
+  readonly unauthorized = new Subject<void>();
+
+  // Protected files need a short-lived file token; PocketBase issues them for about two minutes
+  private fileToken: { token: string; expires: number } | null = null;
+  private readonly FILE_TOKEN_TTL = 60 * 1000;
+
+  // PocketBase returns 30 records per page by default and at most 500
+  private readonly PAGE_SIZE = 200;
+
+  setAuthToken(token: string) {
+    this.runtimeToken.set(token);
+    this.fileToken = null;
+  }
+
+  // Helper to get the best available token
+  getAuthToken(): string {
+    return this.runtimeToken() || this.configService.config().pbAuthToken;
+  }
+
+  get baseUrl(): string {
+    return this.configService.config().pbUrl;
+  }
+
+  // Collection and field names configured in Settings
+  get schema(): PocketBaseSchema {
+    return this.configService.config().pbSchema;
+  }
+
+  recordsUrl(collection: string, id?: string): string {
+    const base = `${this.baseUrl}/api/collections/${collection}/records`;
+    return id ? `${base}/${id}` : base;
+  }
+
+  fileUrl(collection: string, recordId: string, filename: string): string {
+    return `${this.baseUrl}/api/files/${collection}/${recordId}/${encodeURIComponent(filename)}`;
+  }
+
+  async getFileToken(): Promise<string> {
+    if (!this.getAuthToken()) return '';
+    if (this.fileToken && this.fileToken.expires > Date.now()) return this.fileToken.token;
+
+    const { token } = await this.request<{ token: string }>(`${this.baseUrl}/api/files/token`, { method: 'POST' });
+    this.fileToken = { token, expires: Date.now() + this.FILE_TOKEN_TTL };
+    return token;
+  }
+
+  // Every record of a collection matching `params` (filter, sort, fields); walks all pages,
+  // since a single request only returns the first one
+  async listAll<T>(collection: string, params: Record<string, string> = {}): Promise<T[]> {
+    const query = new URLSearchParams({ ...params, perPage: String(this.PAGE_SIZE) });
+    const items: T[] = [];
+    let page = 1;
+    let totalPages = 1;
+    do {
+      query.set('page', String(page));
+      const result = await this.request<PocketBaseList<T>>(`${this.recordsUrl(collection)}?${query}`);
+      items.push(...result.items);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+    return items;
+  }
+
+  // Sends an authenticated request and parses the JSON body; throws PocketBaseError on non-2xx
+  async request<T>(url: string, options: RequestInit = {}): Promise<T> {
+    const headers = new Headers(options.headers);
+    const token = this.getAuthToken();
+    // Callers may send their own credentials, e.g. a superuser token for the admin API
+    const usesSessionToken = !!token && !headers.has('Authorization');
+    if (usesSessionToken) headers.set('Authorization', token);
+    if (options.body && !(options.body instanceof FormData) && !headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
+
+    const response = await fetchWithTimeout(url, { ...options, headers });
+    if (!response.ok) {
+      if (response.status === 401 && usesSessionToken) this.unauthorized.next();
+      throw new PocketBaseError(await readErrorMessage(response), response.status);
+    }
+
+    // DELETE responds with 204 No Content
+    if (response.status === 204) return undefined as T;
+    return await response.json();
+  }
+}
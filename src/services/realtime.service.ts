@@ -0,0 +1,114 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { DataService } from './data.service';
+import { PocketBaseService } from './pocketbase.service';
+import { PocketBaseRepository } from './storage/pocketbase.repository';
+
+export type RealtimeAction = 'create' | 'update' | 'delete';
+
+interface RealtimeEvent {
+  action: RealtimeAction;
+  record: any;
+}
+
+/**
+ * Keeps DataService.documents current by subscribing to the notes collection through
+ * PocketBase's /api/realtime SSE endpoint. Started after login, stopped on logout.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RealtimeService {
+  private pb = inject(PocketBaseService);
+  private dataService = inject(DataService);
+  private notes = inject(PocketBaseRepository);
+
+  // Reconnect delays double from 1 second up to 30 seconds
+  private readonly MIN_RECONNECT_DELAY = 1000;
+  private readonly MAX_RECONNECT_DELAY = 30000;
+
+  isConnected = signal<boolean>(false);
+
+  private eventSource: EventSource | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay = this.MIN_RECONNECT_DELAY;
+  private hasConnected = false;
+
+  connect() {
+    this.disconnect();
+    this.open();
+  }
+
+  disconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.eventSource?.close();
+    this.eventSource = null;
+    this.isConnected.set(false);
+    this.hasConnected = false;
+    this.reconnectDelay = this.MIN_RECONNECT_DELAY;
+  }
+
+  private get topic(): string {
+    return `${this.pb.schema.notes.collection}/*`;
+  }
+
+  private open() {
+    const source = new EventSource(`${this.pb.baseUrl}/api/realtime`);
+    this.eventSource = source;
+
+    // PocketBase assigns a client id on every (re)connect; subscriptions are bound to it
+    source.addEventListener('PB_CONNECT', (event: MessageEvent) => {
+      const { clientId } = JSON.parse(event.data);
+      this.subscribe(clientId);
+    });
+
+    source.addEventListener(this.topic, (event: MessageEvent) => {
+      try {
+        const { action, record }: RealtimeEvent = JSON.parse(event.data);
+        this.dataService.applyRemoteChange(action, this.notes.fromRecord(record));
+      } catch (e) {
+        console.error('Invalid realtime event', e);
+      }
+    });
+
+    source.onerror = () => {
+      // Replace the browser's fixed-interval retry with our own backoff
+      source.close();
+      if (this.eventSource !== source) return;
+      this.eventSource = null;
+      this.isConnected.set(false);
+      this.scheduleReconnect();
+    };
+  }
+
+  private async subscribe(clientId: string) {
+    try {
+      await this.pb.request(`${this.pb.baseUrl}/api/realtime`, {
+        method: 'POST',
+        body: JSON.stringify({ clientId, subscriptions: [this.topic] })
+      });
+      this.isConnected.set(true);
+      this.reconnectDelay = this.MIN_RECONNECT_DELAY;
+
+      // Events sent while disconnected are lost, so catch up with a full reload
+      if (this.hasConnected) this.dataService.loadDocuments();
+      this.hasConnected = true;
+    } catch (e) {
+      console.error('Realtime subscription failed', e);
+      this.eventSource?.close();
+      this.eventSource = null;
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimer) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.MAX_RECONNECT_DELAY);
+  }
+}
@@ -0,0 +1,207 @@
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+import { AuthService } from './auth.service';
+import { daysUntil, today } from './calendar-date';
+import { DataService, DocItem } from './data.service';
+import { SharingService } from './sharing.service';
+import { generateId, getSafeItem, removeSafeItem, setSafeItem } from './storage/storage-utils';
+
+export interface AppNotification {
+  id: string;
+  docId: string;
+  title: string;
+  message: string;
+  createdAt: string;
+  read: boolean;
+}
+
+// Parses "30, 7, 1" into [30, 7, 1]: positive whole days, unique, largest first
+export function parseLeadDays(value: string): number[] {
+  const days = value
+    .split(/[,\s]+/)
+    .map(part => parseInt(part, 10))
+    .filter(n => Number.isInteger(n) && n > 0);
+  return [...new Set(days)].sort((a, b) => b - a);
+}
+
+export function formatLeadDays(days: number[] | null | undefined): string {
+  return days?.length ? days.join(', ') : '';
+}
+
+/**
+ * Delivers expiry reminders at the configured lead times. Delivered reminders are recorded on
+ * the document itself (`remindersSent`/`notified`) so they are not repeated after a reload or
+ * on another device sharing the same backend. Users who cannot edit a document keep that record
+ * in this browser instead.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReminderService {
+  private dataService = inject(DataService);
+  private authService = inject(AuthService);
+  private sharingService = inject(SharingService);
+
+  // Suffixed with the user id: notifications name documents, so each account keeps its own
+  private readonly STORAGE_KEY = 'documinder_notifications';
+  private readonly MAX_NOTIFICATIONS = 50;
+  // Reminders delivered for documents the user cannot edit, also suffixed with the user id
+  private readonly DELIVERED_KEY = 'documinder_reminders_delivered';
+  private readonly MAX_DELIVERED = 500;
+  // Re-check hourly so reminders fire even if the app stays open for days
+  private readonly CHECK_INTERVAL = 60 * 60 * 1000;
+
+  // Guards against delivering twice while the background save of remindersSent is in flight,
+  // and holds the reminders of read-only documents, which are never saved to the document
+  private delivered = new Set<string>();
+
+  private userId: string | null = null;
+
+  notifications = signal<AppNotification[]>([]);
+  unreadCount = computed(() => this.notifications().filter(n => !n.read).length);
+
+  constructor() {
+    // Left by versions that kept one list for every account
+    removeSafeItem(this.STORAGE_KEY);
+
+    effect(() => {
+      const userId = this.authService.currentUser()?.id ?? null;
+      if (userId === this.userId) return;
+      untracked(() => {
+        this.userId = userId;
+        this.delivered = new Set(this.readDelivered());
+        this.notifications.set(this.readNotifications());
+      });
+    });
+    effect(() => {
+      if (this.authService.isLoggedIn() && !this.dataService.isLoading()) {
+        const docs = this.dataService.documents();
+        untracked(() => this.checkReminders(docs));
+      }
+    });
+    setInterval(() => {
+      if (this.authService.isLoggedIn()) this.checkReminders(this.dataService.documents());
+    }, this.CHECK_INTERVAL);
+  }
+
+  // Lead times for a document: its own override, then its category's, then the default
+  leadDaysFor(doc: DocItem): number[] {
+    const { reminders } = this.dataService.config();
+    if (doc.reminderLeadDays?.length) return doc.reminderLeadDays;
+    return reminders.categoryLeadDays[doc.category]?.length
+      ? reminders.categoryLeadDays[doc.category]
+      : reminders.defaultLeadDays;
+  }
+
+  checkReminders(docs: DocItem[]) {
+    const now = today();
+    for (const doc of docs) {
+      if (doc.notified) continue;
+
+      const leadDays = this.leadDaysFor(doc);
+      if (!leadDays.length) continue;
+
+      const daysLeft = daysUntil(doc.expirationDate, now);
+      const expiration = doc.expirationDate;
+      const sent = new Set(doc.remindersSent ?? []);
+      // Keys include the expiration date, so a renewed document gets a fresh set of reminders
+      const due = leadDays.filter(days => {
+        const key = `${expiration}:${days}`;
+        return daysLeft <= days && !sent.has(key) && !this.delivered.has(`${doc.id}:${key}`);
+      });
+      if (!due.length) continue;
+
+      // Only the most urgent due reminder is shown; earlier ones that were missed are marked as sent
+      this.deliver(doc, daysLeft);
+      due.forEach(days => {
+        sent.add(`${expiration}:${days}`);
+        this.delivered.add(`${doc.id}:${expiration}:${days}`);
+      });
+
+      // The server would refuse the write, so the reminder would come back after every reload
+      if (!this.sharingService.canEdit(doc)) {
+        this.persistDelivered();
+        continue;
+      }
+
+      const remindersSent = [...sent];
+      const notified = leadDays.every(days => sent.has(`${expiration}:${days}`));
+      this.dataService.saveInBackground(doc.id, { remindersSent, notified });
+    }
+  }
+
+  markAllRead() {
+    this.notifications.update(list => list.map(n => ({ ...n, read: true })));
+    this.persist();
+  }
+
+  dismiss(id: string) {
+    this.notifications.update(list => list.filter(n => n.id !== id));
+    this.persist();
+  }
+
+  clearAll() {
+    this.notifications.set([]);
+    this.persist();
+  }
+
+  async requestBrowserPermission(): Promise<NotificationPermission> {
+    if (typeof Notification === 'undefined') return 'denied';
+    return Notification.requestPermission();
+  }
+
+  private deliver(doc: DocItem, daysLeft: number) {
+    const message = daysLeft < 0
+      ? `Expired ${-daysLeft} day(s) ago`
+      : daysLeft === 0 ? 'Expires today' : `Expires in ${daysLeft} day(s)`;
+
+    const notification: AppNotification = {
+      id: generateId(),
+      docId: doc.id,
+      title: doc.title,
+      message,
+      createdAt: new Date().toISOString(),
+      read: false
+    };
+    this.notifications.update(list => [notification, ...list].slice(0, this.MAX_NOTIFICATIONS));
+    this.persist();
+
+    if (this.dataService.config().reminders.browserNotifications
+      && typeof Notification !== 'undefined'
+      && Notification.permission === 'granted') {
+      new Notification(`DocuMinder: ${doc.title}`, { body: message, tag: `${doc.id}:${daysLeft}` });
+    }
+  }
+
+  private readNotifications(): AppNotification[] {
+    const data = this.userId && getSafeItem(`${this.STORAGE_KEY}:${this.userId}`);
+    if (!data) return [];
+    try {
+      return JSON.parse(data);
+    } catch (e) {
+      console.error('Failed to parse notifications', e);
+      return [];
+    }
+  }
+
+  private readDelivered(): string[] {
+    const data = this.userId && getSafeItem(`${this.DELIVERED_KEY}:${this.userId}`);
+    if (!data) return [];
+    try {
+      return JSON.parse(data);
+    } catch (e) {
+      console.error('Failed to parse delivered reminders', e);
+      return [];
+    }
+  }
+
+  // Saved with the in-flight keys of editable documents too; those are on the documents already
+  private persistDelivered() {
+    if (this.userId) {
+      setSafeItem(`${this.DELIVERED_KEY}:${this.userId}`, JSON.stringify([...this.delivered].slice(-this.MAX_DELIVERED)));
+    }
+  }
+
+  private persist() {
+    if (this.userId) setSafeItem(`${this.STORAGE_KEY}:${this.userId}`, JSON.stringify(this.notifications()));
+  }
+}
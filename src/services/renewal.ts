@@ -0,0 +1,55 @@
+import { addDays, addMonths } from './calendar-date';
+
+export type RenewalUnit = 'days' | 'months' | 'years';
+
+export interface RenewalInterval {
+  every: number;
+  unit: RenewalUnit;
+}
+
+// One completed validity period, recorded when a document is renewed
+export interface RenewalRecord {
+  periodStart: string;    // Calendar date
+  periodEnd: string;      // The expiration date that was replaced
+  renewedAt: string;      // Timestamp
+}
+
+export const RENEWAL_UNITS: { value: RenewalUnit, label: string }[] = [
+  { value: 'days', label: 'Days' },
+  { value: 'months', label: 'Months' },
+  { value: 'years', label: 'Years' }
+];
+
+// Adds (or with a negative count, subtracts) an interval to a calendar date. Month arithmetic clamps
+// to the last day of the month so Jan 31 + 1 month is Feb 28/29 rather than early March.
+export function addInterval(date: string, interval: RenewalInterval, direction: 1 | -1 = 1): string {
+  const amount = interval.every * direction;
+  switch (interval.unit) {
+    case 'days': return addDays(date, amount);
+    case 'months': return addMonths(date, amount);
+    case 'years': return addMonths(date, amount * 12);
+  }
+}
+
+export function describeInterval(interval: RenewalInterval): string {
+  const unit = interval.every === 1 ? interval.unit.slice(0, -1) : interval.unit;
+  return `Every ${interval.every} ${unit}`;
+}
+
+// Rolls the expiration forward by one interval and appends the finished period to the history
+export function renew(
+  expirationDate: string,
+  interval: RenewalInterval,
+  history: RenewalRecord[] = []
+): { expirationDate: string, renewalHistory: RenewalRecord[] } {
+  const previous = history[history.length - 1];
+  const record: RenewalRecord = {
+    periodStart: previous?.periodEnd ?? addInterval(expirationDate, interval, -1),
+    periodEnd: expirationDate,
+    renewedAt: new Date().toISOString()
+  };
+  return {
+    expirationDate: addInterval(expirationDate, interval),
+    renewalHistory: [...history, record]
+  };
+}
@@ -0,0 +1,255 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { DataService } from './data.service';
+import type { PocketBaseSchema } from './config.service';
+import { fetchWithTimeout, readErrorMessage } from './http';
+import { PocketBaseError, PocketBaseService } from './pocketbase.service';
+import { CollectionSpec, FieldSpec, requiredCollections, RULE_ACTIONS, RuleAction } from './pocketbase-schema';
+
+export type CheckStatus = 'ok' | 'warning' | 'error' | 'unknown';
+
+export interface DiagnosticCheck {
+  label: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface CollectionReport {
+  key: keyof PocketBaseSchema;
+  name: string;
+  status: CheckStatus;  // Worst status among the checks
+  checks: DiagnosticCheck[];
+}
+
+export interface DiagnosticsReport {
+  server: DiagnosticCheck;
+  collections: CollectionReport[];
+  // Checks that need collection definitions were skipped for lack of a superuser login
+  limited: boolean;
+}
+
+// Collection definition as returned by the PocketBase admin API (v0.23+)
+interface CollectionModel {
+  id: string;
+  name: string;
+  type: string;
+  fields: { name: string; type: string; [option: string]: unknown }[];
+  listRule: string | null;
+  viewRule: string | null;
+  createRule: string | null;
+  updateRule: string | null;
+  deleteRule: string | null;
+}
+
+const STATUS_ORDER: CheckStatus[] = ['ok', 'unknown', 'warning', 'error'];
+
+/**
+ * Checks a PocketBase instance against what the app expects (collections, fields and API rules)
+ * and can create whatever is missing. Reading and changing collection definitions needs a
+ * superuser; its token is only kept in memory for the current session.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SchemaService {
+  private dataService = inject(DataService);
+  private pb = inject(PocketBaseService);
+
+  private superuserToken = signal<string>('');
+  superuserEmail = signal<string>('');
+  isSuperuser = computed(() => !!this.superuserToken());
+
+  async superuserLogin(url: string, email: string, password: string) {
+    const response = await fetchWithTimeout(`${url}/api/collections/_superusers/auth-with-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ identity: email, password })
+    });
+    if (!response.ok) {
+      throw new PocketBaseError(await readErrorMessage(response), response.status);
+    }
+    const data = await response.json();
+    this.superuserToken.set(data.token);
+    this.superuserEmail.set(email);
+  }
+
+  superuserLogout() {
+    this.superuserToken.set('');
+    this.superuserEmail.set('');
+  }
+
+  async diagnose(url: string, schema: PocketBaseSchema): Promise<DiagnosticsReport> {
+    const probe = await this.dataService.testConnection(url);
+    const server: DiagnosticCheck = { label: 'Server', status: probe.success ? 'ok' : 'error', detail: probe.message };
+    if (!probe.success) {
+      return { server, collections: [], limited: !this.isSuperuser() };
+    }
+
+    const collections: CollectionReport[] = [];
+    for (const spec of requiredCollections(schema)) {
+      const checks = await this.checkCollection(url, spec);
+      const status = checks.reduce<CheckStatus>(
+        (worst, check) => STATUS_ORDER.indexOf(check.status) > STATUS_ORDER.indexOf(worst) ? check.status : worst, 'ok'
+      );
+      collections.push({ key: spec.key, name: spec.name, status, checks });
+    }
+    return { server, collections, limited: !this.isSuperuser() };
+  }
+
+  // Creates missing collections and adds missing fields. Existing fields are never changed. Returns what was done.
+  async bootstrap(url: string, schema: PocketBaseSchema): Promise<string[]> {
+    if (!this.isSuperuser()) throw new Error('Sign in as a superuser first');
+
+    const log: string[] = [];
+    const ids: Partial<Record<keyof PocketBaseSchema, string>> = {};
+    for (const spec of requiredCollections(schema)) {
+      const existing = await this.fetchCollection(url, spec.name);
+      if (!existing) {
+        const created = await this.adminRequest<CollectionModel>(`${url}/api/collections`, {
+          method: 'POST',
+          body: JSON.stringify({
+            name: spec.name,
+            type: spec.type,
+            fields: spec.fields.map(field => this.fieldDefinition(field, ids)),
+            ...this.ruleDefinition(spec)
+          })
+        });
+        ids[spec.key] = created.id;
+        log.push(`Created collection "${spec.name}" with ${spec.fields.length} field(s)`);
+        continue;
+      }
+
+      ids[spec.key] = existing.id;
+      const missing = spec.fields.filter(field => !existing.fields.some(f => f.name === field.name));
+      if (missing.length) {
+        await this.adminRequest(`${url}/api/collections/${existing.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ fields: [...existing.fields, ...missing.map(field => this.fieldDefinition(field, ids))] })
+        });
+        log.push(`Added ${missing.map(f => `"${f.name}"`).join(', ')} to "${spec.name}"`);
+      }
+    }
+    if (!log.length) log.push('Nothing to do, the schema is complete');
+    return log;
+  }
+
+  // Replaces API rules that differ from the recommended ones, e.g. after an upgrade added document sharing
+  async applyRules(url: string, schema: PocketBaseSchema): Promise<string[]> {
+    if (!this.isSuperuser()) throw new Error('Sign in as a superuser first');
+
+    const log: string[] = [];
+    for (const spec of requiredCollections(schema)) {
+      const existing = await this.fetchCollection(url, spec.name);
+      if (!existing) {
+        log.push(`Skipped "${spec.name}", the collection does not exist yet`);
+        continue;
+      }
+      const changed = RULE_ACTIONS.filter(action => existing[`${action}Rule`] !== spec.rules[action]);
+      if (changed.length) {
+        await this.adminRequest(`${url}/api/collections/${existing.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(this.ruleDefinition(spec))
+        });
+        log.push(`Updated the ${changed.join(', ')} rule(s) of "${spec.name}"`);
+      }
+    }
+    if (!log.length) log.push('Nothing to do, every rule matches');
+    return log;
+  }
+
+  private async checkCollection(url: string, spec: CollectionSpec): Promise<DiagnosticCheck[]> {
+    const access = await this.probeAccess(url, spec);
+
+    // A superuser can read the definition itself: field types and the rules for every action
+    if (this.isSuperuser()) {
+      const model = await this.fetchCollection(url, spec.name);
+      if (!model) return [{ label: 'Collection', status: 'error', detail: 'Missing' }];
+      return [
+        { label: 'Collection', status: model.type === spec.type ? 'ok' : 'error', detail: `Found (${model.type})` },
+        ...spec.fields.map(field => this.checkField(field, model)),
+        ...RULE_ACTIONS.map(action => this.checkRule(action, model[`${action}Rule`], spec.rules[action])),
+        access.check
+      ];
+    }
+
+    // Otherwise only what the signed-in user can see: whether listing works, and the fields of one record
+    if (access.missing) return [{ label: 'Collection', status: 'error', detail: 'Missing' }];
+    const fields = spec.fields.map<DiagnosticCheck>(field => !access.sample
+      ? { label: field.name, status: 'unknown', detail: 'No readable record to inspect' }
+      : field.name in access.sample
+        ? { label: field.name, status: 'ok', detail: 'Present' }
+        : { label: field.name, status: 'error', detail: 'Missing (or hidden from this user)' });
+    return [access.check, ...fields];
+  }
+
+  // Lists one record as the signed-in user
+  private async probeAccess(url: string, spec: CollectionSpec): Promise<{ check: DiagnosticCheck; missing: boolean; sample?: Record<string, unknown> }> {
+    const label = 'Access for signed-in user';
+    if (!this.pb.getAuthToken()) {
+      return { check: { label, status: 'unknown', detail: 'Sign in to check access' }, missing: false };
+    }
+    try {
+      const result = await this.pb.request<{ items: Record<string, unknown>[]; totalItems: number }>(
+        `${url}/api/collections/${encodeURIComponent(spec.name)}/records?perPage=1`
+      );
+      return {
+        check: { label, status: 'ok', detail: `Can list (${result.totalItems} visible record(s))` },
+        missing: false,
+        sample: result.items[0]
+      };
+    } catch (e: unknown) {
+      if (e instanceof PocketBaseError && e.status === 404) {
+        return { check: { label, status: 'error', detail: 'Collection not found' }, missing: true };
+      }
+      if (e instanceof PocketBaseError && e.status === 403) {
+        return { check: { label, status: 'error', detail: 'Listing is denied' }, missing: false };
+      }
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      return { check: { label, status: 'error', detail: message }, missing: false };
+    }
+  }
+
+  private checkField(field: FieldSpec, model: CollectionModel): DiagnosticCheck {
+    const found = model.fields.find(f => f.name === field.name);
+    if (!found) return { label: field.name, status: 'error', detail: `Missing (expected ${field.accepts[0]})` };
+    if (!field.accepts.includes(found.type)) {
+      return { label: field.name, status: 'error', detail: `Is ${found.type}, expected ${field.accepts.join(' or ')}` };
+    }
+    return { label: field.name, status: 'ok', detail: found.type };
+  }
+
+  private checkRule(action: RuleAction, rule: string | null, recommended: string | null): DiagnosticCheck {
+    const label = `${action[0].toUpperCase()}${action.slice(1)} rule`;
+    if (rule === recommended) return { label, status: 'ok', detail: rule ?? 'Superusers only' };
+    if (rule === null) return { label, status: 'error', detail: 'Superusers only; regular users are denied' };
+    if (rule === '') return { label, status: 'warning', detail: 'Public; anyone can access without signing in' };
+    // Sharing is only enforced by the recommended rules; a custom rule may be looser
+    return { label, status: 'warning', detail: `Differs from the recommended rule: ${rule}` };
+  }
+
+  private async fetchCollection(url: string, name: string): Promise<CollectionModel | null> {
+    try {
+      return await this.adminRequest<CollectionModel>(`${url}/api/collections/${encodeURIComponent(name)}`);
+    } catch (e) {
+      if (e instanceof PocketBaseError && e.status === 404) return null;
+      throw e;
+    }
+  }
+
+  private fieldDefinition(field: FieldSpec, ids: Partial<Record<keyof PocketBaseSchema, string>>): Record<string, unknown> {
+    const type = field.relationTo && !ids[field.relationTo] ? 'text' : field.accepts[0];
+    const definition: Record<string, unknown> = { name: field.name, type };
+    if (type === 'relation') definition['collectionId'] = ids[field.relationTo!];
+    if (type === field.accepts[0]) Object.assign(definition, field.options);
+    return definition;
+  }
+
+  private ruleDefinition(spec: CollectionSpec): Record<string, string | null> {
+    return Object.fromEntries(RULE_ACTIONS.map(action => [`${action}Rule`, spec.rules[action]]));
+  }
+
+  private adminRequest<T>(url: string, options: RequestInit = {}): Promise<T> {
+    const headers = new Headers(options.headers);
+    headers.set('Authorization', this.superuserToken());
+    return this.pb.request<T>(url, { ...options, headers });
+  }
+}
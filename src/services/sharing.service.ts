@@ -0,0 +1,102 @@
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+import { AuthService } from './auth.service';
+import { DataService, DocItem } from './data.service';
+import { PocketBaseService } from './pocketbase.service';
+import { DocSharing, isOwnedBy, sharedAccess } from './sharing';
+
+// Another account a document can be shared with
+export interface DirectoryUser {
+  id: string;
+  name: string;
+  team: string;
+}
+
+/**
+ * Who may do what with a single document, on top of the role permissions, and the
+ * directory of accounts to share with. The PocketBase API rules enforce the same
+ * ownership and sharing checks; here they only decide which actions are offered.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SharingService {
+  private authService = inject(AuthService);
+  private dataService = inject(DataService);
+  private pb = inject(PocketBaseService);
+
+  users = signal<DirectoryUser[]>([]);
+  teams = computed(() => [...new Set(this.users().map(u => u.team).filter(Boolean))].sort());
+  error = signal<string | null>(null);
+
+  // Sharing needs other accounts to share with, which only the PocketBase backend has
+  isAvailable = computed(() => this.dataService.config().storageBackend === 'pocketbase');
+
+  constructor() {
+    // Reload when the backend changes or the user signs in or out (not on every token refresh)
+    const hasToken = computed(() => !!this.pb.getAuthToken());
+    effect(() => {
+      this.isAvailable();
+      hasToken();
+      untracked(() => this.loadUsers());
+    });
+  }
+
+  async loadUsers() {
+    if (!this.isAvailable() || !this.pb.getAuthToken()) {
+      this.users.set([]);
+      return;
+    }
+    this.error.set(null);
+    try {
+      const { collection, team } = this.pb.schema.users;
+      // Sorted here: not every users collection has a name or username field to sort by
+      const result = await this.pb.request<{ items: any[] }>(
+        `${this.pb.recordsUrl(collection)}?perPage=500&fields=id,name,username,email,${team}`
+      );
+      this.users.set(result.items
+        .map(item => ({ id: item.id, name: item.name || item.username || item.email || item.id, team: item[team] || '' }))
+        .sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      this.error.set('Failed to load users: ' + errorMessage);
+    }
+  }
+
+  userName(id: string): string {
+    if (id === this.authService.currentUser()?.id) return 'You';
+    return this.users().find(u => u.id === id)?.name ?? 'Unknown user';
+  }
+
+  isMine(doc: DocItem): boolean {
+    const viewer = this.dataService.viewer();
+    return !!viewer && isOwnedBy(doc, viewer);
+  }
+
+  // Shared with the signed-in user by someone else
+  isShared(doc: DocItem): boolean {
+    const viewer = this.dataService.viewer();
+    return !!viewer && !isOwnedBy(doc, viewer);
+  }
+
+  canEdit(doc: DocItem): boolean {
+    if (!this.authService.can('doc:update')) return false;
+    const viewer = this.dataService.viewer();
+    return this.authService.isAdmin() || (!!viewer && (isOwnedBy(doc, viewer) || sharedAccess(doc, viewer) === 'edit'));
+  }
+
+  // Deleting and changing who has access are left to the owner
+  canDelete(doc: DocItem): boolean {
+    return this.authService.can('doc:delete') && (this.authService.isAdmin() || this.isMine(doc));
+  }
+
+  canShare(doc: DocItem): boolean {
+    return this.isAvailable() && this.authService.can('doc:update') && (this.authService.isAdmin() || this.isMine(doc));
+  }
+
+  async share(doc: DocItem, sharing: DocSharing) {
+    // A user has one level of access; editing includes reading
+    const editors = [...new Set(sharing.editors)];
+    const readers = [...new Set(sharing.readers)].filter(id => !editors.includes(id));
+    await this.dataService.updateDocument(doc.id, { ...sharing, readers, editors });
+  }
+}
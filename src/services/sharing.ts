@@ -0,0 +1,55 @@
+import type { DocItem } from './data.service';
+
+export type ShareAccess = 'read' | 'edit';
+
+// Which documents the dashboard lists; unset means everything the user can see
+export type DocumentScope = 'mine' | 'shared';
+
+// The signed-in user as far as ownership and sharing are concerned
+export interface Viewer {
+  id: string;
+  team: string;
+}
+
+// The sharing fields of a document, as edited in the sharing panel
+export interface DocSharing {
+  readers: string[];    // User ids with read access
+  editors: string[];    // User ids with edit access
+  team: string;         // Team whose members get `teamAccess`; empty for none
+  teamAccess: ShareAccess;
+}
+
+export const SHARE_ACCESS_OPTIONS: { value: ShareAccess, label: string }[] = [
+  { value: 'read', label: 'Can view' },
+  { value: 'edit', label: 'Can edit' }
+];
+
+export function sharingOf(doc: DocItem): DocSharing {
+  return {
+    readers: doc.readers ?? [],
+    editors: doc.editors ?? [],
+    team: doc.team ?? '',
+    teamAccess: doc.teamAccess ?? 'read'
+  };
+}
+
+// Documents created before ownership existed have no owner and stay open to every signed-in user
+export function isOwnedBy(doc: DocItem, viewer: Viewer): boolean {
+  return !doc.owner || doc.owner === viewer.id;
+}
+
+// How a document reaches the viewer other than through ownership; null when it is not shared with them
+export function sharedAccess(doc: DocItem, viewer: Viewer): ShareAccess | null {
+  if (doc.editors?.includes(viewer.id)) return 'edit';
+  const team = !!doc.team && doc.team === viewer.team;
+  if (team && doc.teamAccess === 'edit') return 'edit';
+  if (team || doc.readers?.includes(viewer.id)) return 'read';
+  return null;
+}
+
+// In-memory equivalent of the scope filter the PocketBase repository sends to the server
+export function matchesScope(doc: DocItem, scope: DocumentScope | undefined, viewer: Viewer | null | undefined): boolean {
+  if (!scope || !viewer) return true;
+  if (scope === 'mine') return isOwnedBy(doc, viewer);
+  return !isOwnedBy(doc, viewer) && sharedAccess(doc, viewer) !== null;
+}
@@ -0,0 +1,120 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { daysUntil, today } from './calendar-date';
+import type { StatusTier, StatusTone } from './config.service';
+import { DataService, DocItem } from './data.service';
+
+export const STATUS_TONES: { value: StatusTone, label: string }[] = [
+  { value: 'red', label: 'Red' },
+  { value: 'orange', label: 'Orange' },
+  { value: 'amber', label: 'Amber' },
+  { value: 'yellow', label: 'Yellow' },
+  { value: 'sky', label: 'Blue' },
+  { value: 'violet', label: 'Violet' },
+  { value: 'emerald', label: 'Green' }
+];
+
+// Classes per tone, spelled out in full so they are easy to find
+const TONE_CLASSES: Record<StatusTone, { card: string, text: string, border: string, dot: string }> = {
+  red: { card: 'border-red-500 bg-red-900/20 text-red-200', text: 'text-red-400', border: 'border-red-500', dot: 'bg-red-500' },
+  orange: { card: 'border-orange-500 bg-orange-900/20 text-orange-200', text: 'text-orange-400', border: 'border-orange-500', dot: 'bg-orange-500' },
+  amber: { card: 'border-amber-500 bg-amber-900/20 text-amber-200', text: 'text-amber-400', border: 'border-amber-500', dot: 'bg-amber-500' },
+  yellow: { card: 'border-yellow-500 bg-yellow-900/20 text-yellow-200', text: 'text-yellow-400', border: 'border-yellow-500', dot: 'bg-yellow-500' },
+  sky: { card: 'border-sky-500 bg-sky-900/20 text-sky-200', text: 'text-sky-400', border: 'border-sky-500', dot: 'bg-sky-500' },
+  violet: { card: 'border-violet-500 bg-violet-900/20 text-violet-200', text: 'text-violet-400', border: 'border-violet-500', dot: 'bg-violet-500' },
+  emerald: { card: 'border-emerald-500 bg-emerald-900/20 text-emerald-200', text: 'text-emerald-400', border: 'border-emerald-500', dot: 'bg-emerald-500' }
+};
+
+export interface StatusLevel {
+  key: string;
+  label: string;
+  tone: StatusTone;
+}
+
+export interface DocStatus extends StatusLevel {
+  daysLeft: number;
+}
+
+// Expired and Active bracket the configured tiers and always exist
+export const EXPIRED_STATUS: StatusLevel = { key: 'expired', label: 'Expired', tone: 'red' };
+export const ACTIVE_STATUS: StatusLevel = { key: 'active', label: 'Active', tone: 'emerald' };
+
+/**
+ * Decides how urgent a document is from the days left until it expires. Between Expired and
+ * Active sit the tiers configured in Settings (e.g. Critical within 7 days, Renew Soon within 30);
+ * a category can move a tier's threshold, e.g. to warn about passports 180 days ahead.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StatusPolicyService {
+  private dataService = inject(DataService);
+
+  // Refreshed periodically so statuses move on at midnight while the app stays open
+  private readonly DAY_CHECK_INTERVAL = 60 * 1000;
+  today = signal(today());
+
+  // Configured tiers, narrowest first
+  tiers = computed(() => [...this.dataService.config().status.tiers].sort((a, b) => a.days - b.days));
+
+  // Every status in order of urgency, for filters, legends and counts
+  levels = computed<StatusLevel[]>(() => [
+    EXPIRED_STATUS,
+    ...this.tiers().map(tier => ({ key: tier.id, label: tier.label, tone: tier.tone })),
+    ACTIVE_STATUS
+  ]);
+
+  constructor() {
+    setInterval(() => {
+      const current = today();
+      if (current !== this.today()) this.today.set(current);
+    }, this.DAY_CHECK_INTERVAL);
+  }
+
+  // A tier's threshold for a category: the category override, else the tier's own days
+  daysFor(tier: StatusTier, category: string): number {
+    return this.dataService.config().status.categoryDays[category]?.[tier.id] ?? tier.days;
+  }
+
+  statusOf(doc: Pick<DocItem, 'expirationDate' | 'category'>): DocStatus {
+    const daysLeft = daysUntil(doc.expirationDate, this.today());
+    if (daysLeft < 0) return { ...EXPIRED_STATUS, daysLeft };
+    const tier = this.tiers()
+      .filter(t => daysLeft <= this.daysFor(t, doc.category))
+      .sort((a, b) => this.daysFor(a, doc.category) - this.daysFor(b, doc.category))[0];
+    return tier
+      ? { key: tier.id, label: tier.label, tone: tier.tone, daysLeft }
+      : { ...ACTIVE_STATUS, daysLeft };
+  }
+
+  // Number of documents per status key
+  countByStatus(docs: DocItem[]): Record<string, number> {
+    const counts: Record<string, number> = Object.fromEntries(this.levels().map(level => [level.key, 0]));
+    for (const doc of docs) {
+      const key = this.statusOf(doc).key;
+      counts[key] = (counts[key] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  // Left border, tint and text color for a document card
+  cardClass(tone: StatusTone): string {
+    return this.classes(tone).card;
+  }
+
+  textClass(tone: StatusTone): string {
+    return this.classes(tone).text;
+  }
+
+  borderClass(tone: StatusTone): string {
+    return this.classes(tone).border;
+  }
+
+  dotClass(tone: StatusTone): string {
+    return this.classes(tone).dot;
+  }
+
+  // Hand-edited configs may name a tone that does not exist
+  private classes(tone: StatusTone) {
+    return TONE_CLASSES[tone] ?? TONE_CLASSES.amber;
+  }
+}
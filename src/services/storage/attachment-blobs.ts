@@ -0,0 +1,53 @@
+import type { Attachment } from '../attachments';
+import { openDatabase, requestToPromise, STORE_ATTACHMENTS, transactionDone } from './indexeddb';
+import { generateId } from './storage-utils';
+
+// File contents for the local backends. Both keep attachment metadata on the document and
+// the blobs here, since localStorage cannot hold binary data of any useful size.
+
+interface AttachmentBlob extends Attachment {
+  docId: string;
+  blob: Blob;
+  created: string;
+}
+
+export async function saveAttachmentBlobs(docId: string, files: File[]): Promise<Attachment[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_ATTACHMENTS, 'readwrite');
+  const store = tx.objectStore(STORE_ATTACHMENTS);
+  const created = new Date().toISOString();
+  const attachments = files.map(file => ({ id: generateId(), name: file.name, type: file.type, size: file.size }));
+  attachments.forEach((attachment, i) => {
+    const record: AttachmentBlob = { ...attachment, docId, blob: files[i], created };
+    store.put(record);
+  });
+  await transactionDone(tx);
+  return attachments;
+}
+
+// Object URL for the stored file; the caller should revoke it once it is no longer shown
+export async function attachmentBlobUrl(id: string): Promise<string> {
+  const db = await openDatabase();
+  const record = await requestToPromise<AttachmentBlob | undefined>(
+    db.transaction(STORE_ATTACHMENTS, 'readonly').objectStore(STORE_ATTACHMENTS).get(id)
+  );
+  if (!record) throw new Error('Attachment not found');
+  return URL.createObjectURL(record.blob);
+}
+
+export async function deleteAttachmentBlob(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_ATTACHMENTS, 'readwrite');
+  tx.objectStore(STORE_ATTACHMENTS).delete(id);
+  await transactionDone(tx);
+}
+
+// Removes every file belonging to a document
+export async function deleteAttachmentBlobs(docId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_ATTACHMENTS, 'readwrite');
+  const store = tx.objectStore(STORE_ATTACHMENTS);
+  const keys = await requestToPromise(store.index('docId').getAllKeys(docId));
+  keys.forEach(key => store.delete(key));
+  await transactionDone(tx);
+}
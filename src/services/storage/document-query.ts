@@ -0,0 +1,37 @@
+import type { DocItem } from '../data.service';
+import { DocumentScope, matchesScope, Viewer } from '../sharing';
+
+// Filters pushed down to the storage backend; every field is optional and combined with AND
+export interface DocumentQuery {
+  text?: string;          // Case-insensitive match on title or details
+  category?: string;
+  expiresFrom?: string;   // yyyy-MM-dd, inclusive
+  expiresTo?: string;     // yyyy-MM-dd, inclusive
+  scope?: DocumentScope;  // Own documents or those shared with the viewer
+  viewer?: Viewer | null; // Filled in by DataService; PocketBase uses the auth token instead
+  owner?: string;         // Only this user's documents; set for the local backends, which hold every account's
+  trash?: 'only' | 'include'; // Documents in the trash are left out unless asked for
+}
+
+export function isEmptyQuery(query: DocumentQuery): boolean {
+  return !query.text && !query.category && !query.expiresFrom && !query.expiresTo && !query.scope && !query.trash;
+}
+
+// In-memory equivalent of the PocketBase filter, used by the local backends and the offline cache
+export function matchesQuery(doc: DocItem, query: DocumentQuery): boolean {
+  if (query.text) {
+    const needle = query.text.toLowerCase();
+    if (!doc.title.toLowerCase().includes(needle) && !doc.details.toLowerCase().includes(needle)) {
+      return false;
+    }
+  }
+  if (query.trash !== 'include' && !!doc.deletedAt !== (query.trash === 'only')) return false;
+  if (query.owner !== undefined && doc.owner !== query.owner) return false;
+  if (query.category && doc.category !== query.category) return false;
+  if (!matchesScope(doc, query.scope, query.viewer)) return false;
+
+  const day = doc.expirationDate.slice(0, 10);
+  if (query.expiresFrom && day < query.expiresFrom) return false;
+  if (query.expiresTo && day > query.expiresTo) return false;
+  return true;
+}
@@ -0,0 +1,31 @@
+import { InjectionToken } from '@angular/core';
+import type { DocItem } from '../data.service';
+import type { Attachment, AttachmentUrlOptions } from '../attachments';
+import type { StorageBackend } from '../config.service';
+import type { DocumentQuery } from './document-query';
+
+export type NewDocItem = Omit<DocItem, 'id' | 'created' | 'updated'>;
+export type DocItemPatch = Partial<NewDocItem>;
+
+/**
+ * A persistence strategy for documents. DataService picks the implementation whose
+ * `backend` matches `AppConfig.storageBackend`, so adding a store only requires a new
+ * implementation registered in `provideDocumentRepositories()`.
+ *
+ * Remote repositories may be unreachable; DataService caches their documents and queues
+ * writes through SyncService when a call fails with a NetworkError.
+ */
+export interface DocumentRepository {
+  readonly backend: StorageBackend;
+  readonly remote: boolean;
+  load(query?: DocumentQuery): Promise<DocItem[]>;
+  get(id: string): Promise<DocItem | null>;
+  add(doc: NewDocItem): Promise<DocItem>;
+  update(id: string, patch: DocItemPatch): Promise<DocItem>;
+  delete(id: string): Promise<void>;  // Also removes the document's attachments
+  addAttachments(id: string, files: File[]): Promise<DocItem>;
+  removeAttachment(id: string, attachment: Attachment): Promise<DocItem>;
+  attachmentUrl(doc: DocItem, attachment: Attachment, options?: AttachmentUrlOptions): Promise<string>;
+}
+
+export const DOCUMENT_REPOSITORIES = new InjectionToken<DocumentRepository[]>('DOCUMENT_REPOSITORIES');
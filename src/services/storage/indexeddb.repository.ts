@@ -0,0 +1,131 @@
+import { Injectable } from '@angular/core';
+import type { DocItem } from '../data.service';
+import type { Attachment } from '../attachments';
+import { withCalendarDates } from '../calendar-date';
+import { attachmentBlobUrl, deleteAttachmentBlob, deleteAttachmentBlobs, saveAttachmentBlobs } from './attachment-blobs';
+import { deleteLocalObservations } from './local-observations';
+import { DocumentRepository, DocItemPatch, NewDocItem } from './document-repository';
+import { DocumentQuery, matchesQuery } from './document-query';
+import { openDatabase, requestToPromise, STORE_DOCUMENTS, transactionDone } from './indexeddb';
+import { generateId, getSafeItem, setSafeItem } from './storage-utils';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class IndexedDbRepository implements DocumentRepository {
+  readonly backend = 'indexedDb' as const;
+  readonly remote = false;
+
+  // Documents saved by the localStorage backend are copied over once
+  private readonly LEGACY_KEY = 'documinder_data';
+  private readonly MIGRATED_KEY = 'documinder_idb_migrated';
+
+  async load(query: DocumentQuery = {}): Promise<DocItem[]> {
+    await this.migrateFromLocalStorage();
+    const db = await openDatabase();
+    const docs = await requestToPromise<DocItem[]>(
+      db.transaction(STORE_DOCUMENTS, 'readonly').objectStore(STORE_DOCUMENTS).getAll()
+    );
+    // Newest first, matching the other backends
+    return docs
+      .map(withCalendarDates)
+      .filter(d => matchesQuery(d, query))
+      .sort((a, b) => b.created.localeCompare(a.created));
+  }
+
+  async get(id: string): Promise<DocItem | null> {
+    const db = await openDatabase();
+    const doc = await requestToPromise<DocItem | undefined>(
+      db.transaction(STORE_DOCUMENTS, 'readonly').objectStore(STORE_DOCUMENTS).get(id)
+    );
+    return doc ? withCalendarDates(doc) : null;
+  }
+
+  async add(doc: NewDocItem): Promise<DocItem> {
+    const now = new Date().toISOString();
+    const newDoc: DocItem = {
+      ...doc,
+      id: generateId(),
+      created: now,
+      updated: now
+    };
+    await this.put(newDoc);
+    return newDoc;
+  }
+
+  async update(id: string, patch: DocItemPatch): Promise<DocItem> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_DOCUMENTS, 'readwrite');
+    const store = tx.objectStore(STORE_DOCUMENTS);
+    const existing = await requestToPromise<DocItem | undefined>(store.get(id));
+    if (!existing) {
+      tx.abort();
+      throw new Error('Document not found');
+    }
+    const updatedDoc: DocItem = {
+      ...existing,
+      ...patch,
+      id: existing.id,
+      created: existing.created,
+      updated: new Date().toISOString()
+    };
+    store.put(updatedDoc);
+    await transactionDone(tx);
+    return updatedDoc;
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_DOCUMENTS, 'readwrite');
+    tx.objectStore(STORE_DOCUMENTS).delete(id);
+    await transactionDone(tx);
+    deleteLocalObservations(id);
+    await deleteAttachmentBlobs(id);
+  }
+
+  async addAttachments(id: string, files: File[]): Promise<DocItem> {
+    const existing = await this.get(id);
+    if (!existing) {
+      throw new Error('Document not found');
+    }
+    const added = await saveAttachmentBlobs(id, files);
+    return this.update(id, { attachments: [...(existing.attachments ?? []), ...added] });
+  }
+
+  async removeAttachment(id: string, attachment: Attachment): Promise<DocItem> {
+    const existing = await this.get(id);
+    if (!existing) {
+      throw new Error('Document not found');
+    }
+    await deleteAttachmentBlob(attachment.id);
+    return this.update(id, { attachments: (existing.attachments ?? []).filter(a => a.id !== attachment.id) });
+  }
+
+  async attachmentUrl(_doc: DocItem, attachment: Attachment): Promise<string> {
+    return attachmentBlobUrl(attachment.id);
+  }
+
+  private async put(...docs: DocItem[]) {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_DOCUMENTS, 'readwrite');
+    const store = tx.objectStore(STORE_DOCUMENTS);
+    docs.forEach(doc => store.put(doc));
+    await transactionDone(tx);
+  }
+
+  private async migrateFromLocalStorage() {
+    if (getSafeItem(this.MIGRATED_KEY)) return;
+
+    const legacy = getSafeItem(this.LEGACY_KEY);
+    if (legacy) {
+      try {
+        const docs: DocItem[] = JSON.parse(legacy);
+        if (docs.length) await this.put(...docs);
+      } catch (e) {
+        console.error('Failed to migrate documents from localStorage to IndexedDB', e);
+        return;
+      }
+    }
+    setSafeItem(this.MIGRATED_KEY, new Date().toISOString());
+  }
+}
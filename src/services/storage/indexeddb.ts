@@ -0,0 +1,51 @@
+// Minimal promise wrappers around the IndexedDB API shared by the IndexedDB-backed stores.
+
+const DB_NAME = 'documinder';
+// Version 2 added the attachments store
+const DB_VERSION = 2;
+
+export const STORE_DOCUMENTS = 'documents';
+export const STORE_ATTACHMENTS = 'attachments';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_DOCUMENTS)) {
+          db.createObjectStore(STORE_DOCUMENTS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORE_ATTACHMENTS)) {
+          db.createObjectStore(STORE_ATTACHMENTS, { keyPath: 'id' }).createIndex('docId', 'docId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
+    });
+    // Allow a later retry if opening failed (e.g. blocked by another tab)
+    dbPromise.catch(() => dbPromise = null);
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
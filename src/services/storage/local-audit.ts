@@ -0,0 +1,37 @@
+import type { AuditEntry } from '../audit';
+import { getSafeItem } from './storage-utils';
+
+// Audit trail for the local backends, and for entries the server could not take
+
+const STORAGE_KEY = 'documinder_audit';
+// Oldest entries are dropped beyond this many characters of JSON (about 2 MB), leaving most of
+// the browser's localStorage quota to the documents themselves
+const MAX_SIZE = 1_000_000;
+
+export function readLocalAudit(): AuditEntry[] {
+  const data = getSafeItem(STORAGE_KEY);
+  if (!data) return [];
+  try {
+    return JSON.parse(data);
+  } catch (e) {
+    console.error('Failed to parse audit log from localStorage', e);
+    return [];
+  }
+}
+
+// Throws when the browser refuses the write, e.g. because its storage is full
+export function appendLocalAudit(entry: AuditEntry) {
+  const entries = [...readLocalAudit(), entry];
+  let data = JSON.stringify(entries);
+  // A tenth at a time, so a log with large entries is trimmed in a few passes
+  while (data.length > MAX_SIZE && entries.length > 1) {
+    entries.splice(0, Math.min(Math.ceil(entries.length / 10), entries.length - 1));
+    data = JSON.stringify(entries);
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, data);
+  } catch (e) {
+    console.warn(`Storage write blocked for ${STORAGE_KEY}.`, e);
+    throw new Error('The browser did not allow saving it (storage full or blocked)');
+  }
+}
@@ -0,0 +1,28 @@
+import type { Observation } from '../observation.service';
+import { getSafeItem, setSafeItem } from './storage-utils';
+
+// Observation threads for the local backends, kept beside the documents in localStorage
+
+const STORAGE_KEY = 'documinder_observations';
+
+export function readLocalObservations(): Observation[] {
+  const data = getSafeItem(STORAGE_KEY);
+  if (!data) return [];
+  try {
+    return JSON.parse(data);
+  } catch (e) {
+    console.error('Failed to parse observations from localStorage', e);
+    return [];
+  }
+}
+
+export function writeLocalObservations(observations: Observation[]) {
+  setSafeItem(STORAGE_KEY, JSON.stringify(observations));
+}
+
+export function deleteLocalObservations(docId: string) {
+  const observations = readLocalObservations();
+  if (observations.some(o => o.docId === docId)) {
+    writeLocalObservations(observations.filter(o => o.docId !== docId));
+  }
+}
@@ -0,0 +1,110 @@
+import { Injectable } from '@angular/core';
+import type { DocItem } from '../data.service';
+import type { Attachment } from '../attachments';
+import { withCalendarDates } from '../calendar-date';
+import { attachmentBlobUrl, deleteAttachmentBlob, deleteAttachmentBlobs, saveAttachmentBlobs } from './attachment-blobs';
+import { deleteLocalObservations } from './local-observations';
+import { DocumentRepository, DocItemPatch, NewDocItem } from './document-repository';
+import { DocumentQuery, matchesQuery } from './document-query';
+import { generateId, getSafeItem } from './storage-utils';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class LocalStorageRepository implements DocumentRepository {
+  readonly backend = 'localStorage' as const;
+  readonly remote = false;
+
+  private readonly STORAGE_KEY = 'documinder_data';
+
+  async load(query: DocumentQuery = {}): Promise<DocItem[]> {
+    return this.read().filter(d => matchesQuery(d, query));
+  }
+
+  async get(id: string): Promise<DocItem | null> {
+    return this.read().find(d => d.id === id) ?? null;
+  }
+
+  async add(doc: NewDocItem): Promise<DocItem> {
+    const now = new Date().toISOString();
+    const newDoc: DocItem = {
+      ...doc,
+      id: generateId(),
+      created: now,
+      updated: now
+    };
+    this.write([newDoc, ...this.read()]);
+    return newDoc;
+  }
+
+  async update(id: string, patch: DocItemPatch): Promise<DocItem> {
+    const current = this.read();
+    const existing = current.find(d => d.id === id);
+    if (!existing) {
+      throw new Error('Document not found');
+    }
+    // id and created are preserved; only the patched fields change
+    const updatedDoc: DocItem = {
+      ...existing,
+      ...patch,
+      id: existing.id,
+      created: existing.created,
+      updated: new Date().toISOString()
+    };
+    this.write(current.map(d => d.id === id ? updatedDoc : d));
+    return updatedDoc;
+  }
+
+  async delete(id: string): Promise<void> {
+    const current = this.read();
+    this.write(current.filter(d => d.id !== id));
+    deleteLocalObservations(id);
+    // Only touch IndexedDB when there is something to clean up
+    if (current.find(d => d.id === id)?.attachments?.length) {
+      await deleteAttachmentBlobs(id);
+    }
+  }
+
+  async addAttachments(id: string, files: File[]): Promise<DocItem> {
+    const existing = await this.get(id);
+    if (!existing) {
+      throw new Error('Document not found');
+    }
+    const added = await saveAttachmentBlobs(id, files);
+    return this.update(id, { attachments: [...(existing.attachments ?? []), ...added] });
+  }
+
+  async removeAttachment(id: string, attachment: Attachment): Promise<DocItem> {
+    const existing = await this.get(id);
+    if (!existing) {
+      throw new Error('Document not found');
+    }
+    await deleteAttachmentBlob(attachment.id);
+    return this.update(id, { attachments: (existing.attachments ?? []).filter(a => a.id !== attachment.id) });
+  }
+
+  async attachmentUrl(_doc: DocItem, attachment: Attachment): Promise<string> {
+    return attachmentBlobUrl(attachment.id);
+  }
+
+  private read(): DocItem[] {
+    const data = getSafeItem(this.STORAGE_KEY);
+    if (!data) return [];
+    try {
+      return (JSON.parse(data) as DocItem[]).map(withCalendarDates);
+    } catch (e) {
+      console.error('Failed to parse documents from localStorage', e);
+      return [];
+    }
+  }
+
+  // Throws rather than losing the change when the browser refuses the write (e.g. storage full)
+  private write(docs: DocItem[]) {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(docs));
+    } catch (e) {
+      console.warn(`Storage write blocked for ${this.STORAGE_KEY}.`, e);
+      throw new Error('The browser did not allow saving documents (storage full or blocked)');
+    }
+  }
+}
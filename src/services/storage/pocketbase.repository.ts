@@ -0,0 +1,219 @@
+import { Injectable, inject } from '@angular/core';
+import type { DocItem } from '../data.service';
+import { Attachment, AttachmentUrlOptions, typeFromName } from '../attachments';
+import { addDays, withCalendarDates } from '../calendar-date';
+import { filterValue, PocketBaseError, PocketBaseService } from '../pocketbase.service';
+import { noteAccess } from '../pocketbase-schema';
+import { DocumentRepository, DocItemPatch, NewDocItem } from './document-repository';
+import { DocumentQuery } from './document-query';
+
+// DocItem fields stored as a Notes field of the same key in PocketBaseSchema
+const WRITABLE_FIELDS = [
+  'title', 'details', 'category', 'expirationDate', 'renewalInterval', 'renewalHistory',
+  'reminderLeadDays', 'remindersSent', 'notified', 'owner', 'readers', 'editors', 'team', 'teamAccess', 'deletedAt'
+] as const;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PocketBaseRepository implements DocumentRepository {
+  readonly backend = 'pocketbase' as const;
+  readonly remote = true;
+
+  private pb = inject(PocketBaseService);
+
+  // Collection and field names come from the schema mapping in Settings
+  private get notes() {
+    return this.pb.schema.notes;
+  }
+
+  private get observations() {
+    return this.pb.schema.observations;
+  }
+
+  async load(query: DocumentQuery = {}): Promise<DocItem[]> {
+    // If no token (not logged in and no static token), we can't fetch private data
+    if (!this.pb.getAuthToken()) return [];
+
+    const params: Record<string, string> = { sort: '-created' };
+    const filter = this.buildFilter(query);
+    if (filter) params['filter'] = filter;
+
+    const items = await this.pb.listAll<any>(this.notes.collection, params);
+    return items.map(item => this.fromRecord(item));
+  }
+
+  async get(id: string): Promise<DocItem | null> {
+    try {
+      return this.fromRecord(await this.pb.request<any>(this.pb.recordsUrl(this.notes.collection, id)));
+    } catch (e) {
+      if (e instanceof PocketBaseError && e.status === 404) return null;
+      throw e;
+    }
+  }
+
+  async add(doc: NewDocItem): Promise<DocItem> {
+    // 1. Create the Note in the notes collection
+    const newNote = await this.pb.request<any>(this.pb.recordsUrl(this.notes.collection), {
+      method: 'POST',
+      body: JSON.stringify(this.toRecord(doc))
+    });
+
+    // 2. Create the Observation in the observations collection (Linking tables)
+    // We attempt to create a record in the Observations table that links back to the Note
+    // This ensures all 3 tables (users, Notes, Observations) are utilized.
+    await this.addObservation(newNote.id, doc.details);
+
+    return this.fromRecord(newNote);
+  }
+
+  async update(id: string, patch: DocItemPatch): Promise<DocItem> {
+    // 1. The edit form sends every field, so the previous details tell whether they really changed
+    const previous = patch.details !== undefined ? await this.get(id) : null;
+
+    // 2. PATCH only the fields that were actually changed
+    const updatedNote = await this.pb.request<any>(this.pb.recordsUrl(this.notes.collection, id), {
+      method: 'PATCH',
+      body: JSON.stringify(this.toRecord(patch))
+    });
+    const updated = this.fromRecord(updatedNote);
+
+    // 3. Keep the linked Observations in step: new details join the timeline instead of replacing an entry
+    if (previous && updated.details && previous.details !== updated.details) {
+      await this.addObservation(id, updated.details);
+    }
+
+    return updated;
+  }
+
+  // PocketBase removes the record's files along with it; linked Observations are removed here
+  async delete(id: string): Promise<void> {
+    await this.pb.request(this.pb.recordsUrl(this.notes.collection, id), { method: 'DELETE' });
+    await this.deleteObservations(id);
+  }
+
+  async addAttachments(id: string, files: File[]): Promise<DocItem> {
+    // Multipart PATCH; the '+' modifier appends instead of replacing the existing files
+    const body = new FormData();
+    files.forEach(file => body.append(`${this.notes.attachments}+`, file, file.name));
+    const updatedNote = await this.pb.request<any>(this.pb.recordsUrl(this.notes.collection, id), { method: 'PATCH', body });
+    return this.fromRecord(updatedNote);
+  }
+
+  async removeAttachment(id: string, attachment: Attachment): Promise<DocItem> {
+    const updatedNote = await this.pb.request<any>(this.pb.recordsUrl(this.notes.collection, id), {
+      method: 'PATCH',
+      body: JSON.stringify({ [`${this.notes.attachments}-`]: [attachment.id] })
+    });
+    return this.fromRecord(updatedNote);
+  }
+
+  async attachmentUrl(doc: DocItem, attachment: Attachment, options: AttachmentUrlOptions = {}): Promise<string> {
+    const params = new URLSearchParams();
+    if (options.thumb) params.set('thumb', '100x100');
+    if (options.download) params.set('download', '1');
+    const token = await this.pb.getFileToken();
+    if (token) params.set('token', token);
+
+    const query = params.toString();
+    const url = this.pb.fileUrl(this.notes.collection, doc.id, attachment.id);
+    return query ? `${url}?${query}` : url;
+  }
+
+  // Translate the query into a PocketBase filter expression so filtering happens server-side
+  private buildFilter(query: DocumentQuery): string {
+    const clauses: string[] = [];
+    if (query.text) {
+      clauses.push(`(${this.notes.title} ~ ${filterValue(query.text)} || ${this.notes.details} ~ ${filterValue(query.text)})`);
+    }
+    if (query.category) {
+      clauses.push(`${this.notes.category} = ${filterValue(query.category)}`);
+    }
+    // Bare day bounds compare correctly against both 'yyyy-MM-dd' text and 'yyyy-MM-dd 00:00:00.000Z' dates
+    if (query.expiresFrom) {
+      clauses.push(`${this.notes.expirationDate} >= ${filterValue(query.expiresFrom)}`);
+    }
+    if (query.expiresTo) {
+      clauses.push(`${this.notes.expirationDate} < ${filterValue(addDays(query.expiresTo, 1))}`);
+    }
+    if (query.trash !== 'include') {
+      clauses.push(`${this.notes.deletedAt} ${query.trash === 'only' ? '!=' : '='} ""`);
+    }
+    // Scopes narrow what the API rules already allow; they do not grant access themselves
+    if (query.scope) {
+      const access = noteAccess(this.pb.schema);
+      clauses.push(query.scope === 'mine'
+        ? `(${access.mine} || ${access.unowned})`
+        : `${this.notes.owner} != "" && ${this.notes.owner} != @request.auth.id && ${access.sharedRead}`);
+    }
+    return clauses.join(' && ');
+  }
+
+  // Map PB schema to App schema
+  fromRecord(item: any): DocItem {
+    const f = this.notes;
+    return withCalendarDates({
+      id: item.id,
+      title: item[f.title] || 'Untitled',
+      details: item[f.details] || '',
+      category: item[f.category] || 'General',
+      expirationDate: item[f.expirationDate] || item.created,
+      created: item.created,
+      updated: item.updated,
+      renewalInterval: item[f.renewalInterval] || null,
+      renewalHistory: Array.isArray(item[f.renewalHistory]) ? item[f.renewalHistory] : [],
+      reminderLeadDays: Array.isArray(item[f.reminderLeadDays]) ? item[f.reminderLeadDays] : null,
+      remindersSent: Array.isArray(item[f.remindersSent]) ? item[f.remindersSent] : [],
+      notified: !!item[f.notified],
+      attachments: this.attachmentsFromRecord(item[f.attachments]),
+      owner: item[f.owner] || '',
+      readers: Array.isArray(item[f.readers]) ? item[f.readers] : [],
+      editors: Array.isArray(item[f.editors]) ? item[f.editors] : [],
+      team: item[f.team] || '',
+      teamAccess: item[f.teamAccess] === 'edit' ? 'edit' : 'read',
+      deletedAt: item[f.deletedAt] || null
+    });
+  }
+
+  // Map App schema to PB schema, skipping fields that are not being written
+  private toRecord(doc: DocItemPatch): Record<string, unknown> {
+    const record: Record<string, unknown> = {};
+    for (const key of WRITABLE_FIELDS) {
+      if (doc[key] !== undefined) record[this.notes[key]] = doc[key];
+    }
+    return record;
+  }
+
+  // A single-file field holds a string, a multi-file field an array of stored file names
+  private attachmentsFromRecord(value: unknown): Attachment[] {
+    const names = Array.isArray(value) ? value : value ? [value] : [];
+    return names.map((name: string) => ({ id: name, name, type: typeFromName(name) }));
+  }
+
+  private async addObservation(noteId: string, details: string) {
+    try {
+      await this.pb.request(this.pb.recordsUrl(this.observations.collection), {
+        method: 'POST',
+        body: JSON.stringify({ [this.observations.noteId]: noteId, [this.observations.text]: details })
+      });
+    } catch (obsErr) {
+      // We don't fail the whole operation if this secondary write fails (e.g. if schema differs slightly)
+      console.error('Failed to write to Observations table. Run the schema diagnostics in Settings.', obsErr);
+    }
+  }
+
+  private async deleteObservations(noteId: string) {
+    try {
+      const observations = await this.pb.listAll<{ id: string }>(this.observations.collection, {
+        filter: `${this.observations.noteId}=${filterValue(noteId)}`,
+        fields: 'id'
+      });
+      for (const observation of observations) {
+        await this.pb.request(this.pb.recordsUrl(this.observations.collection, observation.id), { method: 'DELETE' });
+      }
+    } catch (obsErr) {
+      // As with creation, the Note itself is the source of truth; leftover Observations are not fatal
+      console.error('Failed to delete linked Observations. Run the schema diagnostics in Settings.', obsErr);
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { Provider } from '@angular/core';
+import { DOCUMENT_REPOSITORIES } from './document-repository';
+import { IndexedDbRepository } from './indexeddb.repository';
+import { LocalStorageRepository } from './local-storage.repository';
+import { PocketBaseRepository } from './pocketbase.repository';
+
+// Registers every available storage backend; DataService selects one by AppConfig.storageBackend
+export function provideDocumentRepositories(): Provider[] {
+  return [
+    { provide: DOCUMENT_REPOSITORIES, useExisting: LocalStorageRepository, multi: true },
+    { provide: DOCUMENT_REPOSITORIES, useExisting: IndexedDbRepository, multi: true },
+    { provide: DOCUMENT_REPOSITORIES, useExisting: PocketBaseRepository, multi: true }
+  ];
+}
@@ -0,0 +1,42 @@
+// --- Safe Storage Wrappers ---
+// localStorage can throw (private browsing, blocked cookies, quota), so every access is guarded.
+
+export function getSafeItem(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch (e) {
+    console.warn(`Storage access blocked for ${key}. App will run in volatile mode.`, e);
+    return null;
+  }
+}
+
+export function setSafeItem(key: string, value: string): void {
+  try {
+    localStorage.setItem(key, value);
+  } catch (e) {
+    console.warn(`Storage write blocked for ${key}.`, e);
+  }
+}
+
+export function removeSafeItem(key: string): void {
+  try {
+    localStorage.removeItem(key);
+  } catch (e) {
+    console.warn(`Storage remove blocked for ${key}.`, e);
+  }
+}
+
+export function generateId(): string {
+  try {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+      return crypto.randomUUID();
+    }
+  } catch (e) {
+    console.warn('crypto.randomUUID() not available, using fallback', e);
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
+    const r = Math.random() * 16 | 0, v = c == 'x' ? r : (r & 0x3 | 0x8);
+    return v.toString(16);
+  });
+}
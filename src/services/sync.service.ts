@@ -0,0 +1,270 @@
+import { Injectable, computed, signal } from '@angular/core';
+import type { DocItem } from './data.service';
+import { NetworkError } from './http';
+import { DocumentRepository, DocItemPatch, NewDocItem } from './storage/document-repository';
+import { generateId, getSafeItem, removeSafeItem, setSafeItem } from './storage/storage-utils';
+
+export type SyncOperation = 'create' | 'update' | 'delete';
+export type SyncStatus = 'pending' | 'failed' | 'conflict';
+
+export interface SyncEntry {
+  id: string;
+  operation: SyncOperation;
+  docId: string;
+  title: string;          // Kept for display, the document may no longer be in the list
+  patch?: DocItemPatch;   // Full NewDocItem for 'create'
+  baseUpdated?: string;   // Server 'updated' timestamp the change was made against
+  queuedAt: string;
+  status: SyncStatus;
+  error?: string;
+}
+
+// Thrown during replay when the server copy changed after the queued edit was made
+class SyncConflictError extends Error {
+  constructor(serverUpdated: string) {
+    super(`Changed on the server at ${serverUpdated}`);
+    this.name = 'SyncConflictError';
+  }
+}
+
+/**
+ * Offline support for remote storage backends: keeps a local copy of the last loaded
+ * documents and a persistent queue of writes that could not reach the server. Both are
+ * kept per user, so the next person to sign in on this browser neither sees the cached
+ * documents nor replays the queued writes of the last one.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SyncService {
+  private readonly QUEUE_KEY = 'documinder_sync_queue';
+  private readonly CACHE_KEY = 'documinder_remote_cache';
+  // Documents created while offline get a temporary id until the server assigns one
+  private readonly LOCAL_ID_PREFIX = 'offline-';
+
+  // Signed-in user, set through DataService.setViewer; nothing is cached or queued without one
+  private owner: string | null = null;
+
+  queue = signal<SyncEntry[]>([]);
+  isOnline = signal<boolean>(true);
+  isSyncing = signal<boolean>(false);
+
+  pendingCount = computed(() => this.queue().filter(e => e.status === 'pending').length);
+  failedCount = computed(() => this.queue().filter(e => e.status !== 'pending').length);
+
+  constructor() {
+    // Left by versions that shared one cache and queue between users; their owner is unknown
+    removeSafeItem(this.QUEUE_KEY);
+    removeSafeItem(this.CACHE_KEY);
+  }
+
+  setOwner(userId: string | null) {
+    if (userId === this.owner) return;
+    this.owner = userId;
+    this.queue.set(this.readQueue());
+  }
+
+  private keyFor(base: string): string | null {
+    return this.owner ? `${base}:${this.owner}` : null;
+  }
+
+  // --- Cache ---
+
+  readCache(): DocItem[] {
+    const key = this.keyFor(this.CACHE_KEY);
+    const data = key && getSafeItem(key);
+    if (!data) return [];
+    try {
+      return JSON.parse(data);
+    } catch (e) {
+      console.error('Failed to parse cached documents', e);
+      return [];
+    }
+  }
+
+  cacheDocuments(docs: DocItem[]) {
+    const key = this.keyFor(this.CACHE_KEY);
+    if (key) setSafeItem(key, JSON.stringify(docs));
+  }
+
+  isLocalOnly(id: string): boolean {
+    return id.startsWith(this.LOCAL_ID_PREFIX);
+  }
+
+  // --- Queueing (each returns the updated cached document list) ---
+
+  queueCreate(doc: NewDocItem): DocItem[] {
+    const now = new Date().toISOString();
+    const localDoc: DocItem = { ...doc, id: this.LOCAL_ID_PREFIX + generateId(), created: now };
+    this.enqueue({ operation: 'create', docId: localDoc.id, title: doc.title, patch: { ...doc } });
+    return this.writeCache([localDoc, ...this.readCache()]);
+  }
+
+  queueUpdate(id: string, patch: DocItemPatch): DocItem[] {
+    const cached = this.readCache();
+    const existing = cached.find(d => d.id === id);
+    if (!existing) throw new Error('Document not found');
+
+    // Successive offline edits collapse into the entry already waiting for this document
+    const waiting = this.queue().find(e => e.docId === id && e.operation !== 'delete');
+    if (waiting) {
+      this.replaceEntry({ ...waiting, title: patch.title ?? waiting.title, patch: { ...waiting.patch, ...patch }, status: 'pending', error: undefined });
+    } else {
+      this.enqueue({ operation: 'update', docId: id, title: existing.title, patch, baseUpdated: existing.updated });
+    }
+    return this.writeCache(cached.map(d => d.id === id ? { ...d, ...patch } : d));
+  }
+
+  queueDelete(id: string): DocItem[] {
+    const cached = this.readCache();
+    const existing = cached.find(d => d.id === id);
+    const waiting = this.queue().filter(e => e.docId === id);
+    this.queue.update(q => q.filter(e => e.docId !== id));
+
+    // A document that never reached the server only needs its queued entries dropped
+    if (!this.isLocalOnly(id)) {
+      this.enqueue({
+        operation: 'delete',
+        docId: id,
+        title: existing?.title ?? waiting[0]?.title ?? id,
+        baseUpdated: waiting.find(e => e.baseUpdated)?.baseUpdated ?? existing?.updated
+      });
+    }
+    this.persistQueue();
+    return this.writeCache(cached.filter(d => d.id !== id));
+  }
+
+  // --- Replay ---
+
+  // Applies pending entries in order; stops at the first network failure. Returns how many were applied.
+  async replay(repository: DocumentRepository): Promise<number> {
+    if (this.isSyncing()) return 0;
+    this.isSyncing.set(true);
+    let applied = 0;
+
+    try {
+      for (const { id } of this.queue().filter(e => e.status === 'pending')) {
+        // Re-read: applying a create rewrites the docId of later entries
+        const entry = this.queue().find(e => e.id === id);
+        if (!entry) continue;
+
+        try {
+          await this.apply(repository, entry, false);
+          this.removeEntry(entry.id);
+          applied++;
+        } catch (e: unknown) {
+          if (e instanceof NetworkError) {
+            this.isOnline.set(false);
+            break;
+          }
+          const message = e instanceof Error ? e.message : 'Unknown error';
+          this.replaceEntry({ ...entry, status: e instanceof SyncConflictError ? 'conflict' : 'failed', error: message });
+        }
+      }
+    } finally {
+      this.isSyncing.set(false);
+    }
+    return applied;
+  }
+
+  // Re-queues a failed entry for the next replay
+  retry(entryId: string) {
+    const entry = this.queue().find(e => e.id === entryId);
+    if (entry) this.replaceEntry({ ...entry, status: 'pending', error: undefined });
+  }
+
+  // Resolves a conflict in favour of the local change by applying it without the timestamp check
+  async overwriteServer(repository: DocumentRepository, entryId: string) {
+    const entry = this.queue().find(e => e.id === entryId);
+    if (!entry) return;
+    try {
+      await this.apply(repository, entry, true);
+      this.removeEntry(entry.id);
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      this.replaceEntry({ ...entry, status: 'failed', error: message });
+      throw e;
+    }
+  }
+
+  // Drops a queued change, keeping whatever the server has
+  discard(entryId: string) {
+    this.removeEntry(entryId);
+  }
+
+  private async apply(repository: DocumentRepository, entry: SyncEntry, force: boolean) {
+    switch (entry.operation) {
+      case 'create': {
+        const created = await repository.add(entry.patch as NewDocItem);
+        this.remapId(entry.docId, created.id);
+        return;
+      }
+      case 'update': {
+        const server = await repository.get(entry.docId);
+        if (!server) throw new Error('Document no longer exists on the server');
+        if (!force) this.checkConflict(entry, server);
+        await repository.update(entry.docId, entry.patch ?? {});
+        return;
+      }
+      case 'delete': {
+        const server = await repository.get(entry.docId);
+        if (!server) return; // Already gone
+        if (!force) this.checkConflict(entry, server);
+        await repository.delete(entry.docId);
+        return;
+      }
+    }
+  }
+
+  private checkConflict(entry: SyncEntry, server: DocItem) {
+    if (entry.baseUpdated && server.updated && server.updated !== entry.baseUpdated) {
+      throw new SyncConflictError(server.updated);
+    }
+  }
+
+  // Points queued entries and the cache at the id the server assigned to an offline-created document
+  private remapId(localId: string, serverId: string) {
+    this.queue.update(q => q.map(e => e.docId === localId ? { ...e, docId: serverId } : e));
+    this.persistQueue();
+    this.writeCache(this.readCache().map(d => d.id === localId ? { ...d, id: serverId } : d));
+  }
+
+  // --- Queue Storage ---
+
+  private enqueue(entry: Omit<SyncEntry, 'id' | 'queuedAt' | 'status'>) {
+    this.queue.update(q => [...q, { ...entry, id: generateId(), queuedAt: new Date().toISOString(), status: 'pending' }]);
+    this.persistQueue();
+  }
+
+  private replaceEntry(entry: SyncEntry) {
+    this.queue.update(q => q.map(e => e.id === entry.id ? entry : e));
+    this.persistQueue();
+  }
+
+  private removeEntry(entryId: string) {
+    this.queue.update(q => q.filter(e => e.id !== entryId));
+    this.persistQueue();
+  }
+
+  private readQueue(): SyncEntry[] {
+    const key = this.keyFor(this.QUEUE_KEY);
+    const data = key && getSafeItem(key);
+    if (!data) return [];
+    try {
+      return JSON.parse(data);
+    } catch (e) {
+      console.error('Failed to parse sync queue', e);
+      return [];
+    }
+  }
+
+  private persistQueue() {
+    const key = this.keyFor(this.QUEUE_KEY);
+    if (key) setSafeItem(key, JSON.stringify(this.queue()));
+  }
+
+  private writeCache(docs: DocItem[]): DocItem[] {
+    this.cacheDocuments(docs);
+    return docs;
+  }
+}